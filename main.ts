@@ -3,15 +3,46 @@ import { FileService } from './src/services/FileService';
 import { ParserService } from './src/services/ParserService';
 import { ScheduleService } from './src/services/ScheduleService';
 import { UnitAssignmentService } from './src/services/UnitAssignmentService';
+import { BumpService } from './src/services/BumpService';
+import { TemplateService } from './src/services/TemplateService';
+import { CalendarExportService } from './src/services/CalendarExportService';
+import { CalendarImportService, DEFAULT_CALENDAR_IMPORT_RULES } from './src/services/CalendarImportService';
+import { HistoryResult, HistoryService } from './src/services/HistoryService';
+import { BumpClassModal } from './src/modals/BumpClassModal';
+import { BumpDayModal } from './src/modals/BumpDayModal';
+import { AssignUnitModal } from './src/modals/AssignUnitModal';
+import { ClassUnits } from './src/modals/AssignedUnitModal';
+import { UnassignUnitModal } from './src/modals/UnassignUnitModal';
+import { ResizeUnitModal } from './src/modals/ResizeUnitModal';
+import { RescheduleUnitModal } from './src/modals/RescheduleUnitModal';
+import { RepairDailyPlansModal } from './src/modals/RepairDailyPlansModal';
+import { ExportCalendarModal } from './src/modals/ExportCalendarModal';
+import { ImportCalendarModal } from './src/modals/ImportCalendarModal';
+import { PacingGuideModal } from './src/modals/PacingGuideModal';
+import { ConsistencyService } from './src/services/ConsistencyService';
+import { VIEW_TYPE_WEEKLY_SCHEDULE, WeeklyScheduleView } from './src/views/WeeklyScheduleView';
+import { ConsistencyReportView, VIEW_TYPE_CONSISTENCY_REPORT } from './src/views/ConsistencyReportView';
+import { HolidayEntry, Movement, PacingGuide } from './src/types';
+import { getTodayString } from './src/utils/dateUtils';
 
 interface LessonPlannerSettings {
 	lessonPlanningRoot: string;
 	enableDebugLogging: boolean;
+	schoolDayStart: string;
+	schoolDayEnd: string;
+	dailyPlanTemplate: string;
+	classEntryTemplate: string;
+	calendarImportRules: string;
 }
 
 const DEFAULT_SETTINGS: LessonPlannerSettings = {
 	lessonPlanningRoot: '20 Lesson Planning',
-	enableDebugLogging: false
+	enableDebugLogging: false,
+	schoolDayStart: '7:00 AM',
+	schoolDayEnd: '6:00 PM',
+	dailyPlanTemplate: '',
+	classEntryTemplate: '',
+	calendarImportRules: DEFAULT_CALENDAR_IMPORT_RULES
 }
 
 export default class LessonPlannerPlugin extends Plugin {
@@ -21,7 +52,13 @@ export default class LessonPlannerPlugin extends Plugin {
 	fileService: FileService;
 	parserService: ParserService;
 	scheduleService: ScheduleService;
+	templateService: TemplateService;
 	unitAssignmentService: UnitAssignmentService;
+	bumpService: BumpService;
+	historyService: HistoryService;
+	consistencyService: ConsistencyService;
+	calendarExportService: CalendarExportService;
+	calendarImportService: CalendarImportService;
 
 	async onload() {
 		await this.loadSettings();
@@ -29,6 +66,19 @@ export default class LessonPlannerPlugin extends Plugin {
 		// Initialize services
 		await this.initializeServices();
 		
+		// Register views
+		this.registerView(
+			VIEW_TYPE_WEEKLY_SCHEDULE,
+			(leaf) => new WeeklyScheduleView(leaf, this.scheduleService, this.fileService)
+		);
+		this.registerView(
+			VIEW_TYPE_CONSISTENCY_REPORT,
+			(leaf) => new ConsistencyReportView(leaf, this.consistencyService)
+		);
+		this.addRibbonIcon('calendar-days', 'Open Weekly Schedule', async () => {
+			await this.activateWeeklyView();
+		});
+
 		// Register commands
 		this.registerCommands();
 
@@ -43,12 +93,44 @@ export default class LessonPlannerPlugin extends Plugin {
 			// Initialize core services
 			this.fileService = new FileService(this.app, this.settings.lessonPlanningRoot);
 			this.parserService = new ParserService();
+			if (!this.parserService.setSchoolDayWindow(this.settings.schoolDayStart, this.settings.schoolDayEnd)) {
+				console.warn(`Invalid school day window "${this.settings.schoolDayStart}" - "${this.settings.schoolDayEnd}", using defaults`);
+			}
 			this.scheduleService = new ScheduleService(this.fileService, this.parserService);
+			this.historyService = new HistoryService(this.fileService, this.scheduleService);
+			this.templateService = new TemplateService(this.fileService, this.parserService);
+			this.templateService.setTemplatePaths(this.settings.dailyPlanTemplate, this.settings.classEntryTemplate);
 			
 			// Initialize unit assignment service
 			this.unitAssignmentService = new UnitAssignmentService(
 				this.fileService, 
 				this.parserService, 
+				this.scheduleService,
+				this.templateService
+			);
+
+			this.bumpService = new BumpService(
+				this.fileService,
+				this.parserService,
+				this.scheduleService,
+				this.templateService
+			);
+
+			this.consistencyService = new ConsistencyService(
+				this.fileService,
+				this.parserService,
+				this.scheduleService
+			);
+
+			this.calendarExportService = new CalendarExportService(
+				this.fileService,
+				this.parserService,
+				this.scheduleService
+			);
+
+			this.calendarImportService = new CalendarImportService(
+				this.fileService,
+				this.parserService,
 				this.scheduleService
 			);
 			
@@ -69,7 +151,15 @@ export default class LessonPlannerPlugin extends Plugin {
 			}
 		});
 
-		// Unit assignment command - now with real testing
+		this.addCommand({
+			id: 'open-weekly-schedule',
+			name: 'Open Weekly Schedule',
+			callback: async () => {
+				await this.activateWeeklyView();
+			}
+		});
+
+		// Unit assignment command - opens the assignment modal with preview
 		this.addCommand({
 			id: 'assign-unit-to-class',
 			name: 'Assign Unit to Class',
@@ -78,6 +168,38 @@ export default class LessonPlannerPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'schedule-pacing-guide',
+			name: 'Schedule Pacing Guide',
+			callback: async () => {
+				await this.schedulePacingGuide();
+			}
+		});
+
+		this.addCommand({
+			id: 'unassign-unit-from-class',
+			name: 'Unassign Unit from Class',
+			callback: async () => {
+				await this.unassignUnitFromClass();
+			}
+		});
+
+		this.addCommand({
+			id: 'resize-assigned-unit',
+			name: 'Resize Assigned Unit',
+			callback: async () => {
+				await this.resizeAssignedUnit();
+			}
+		});
+
+		this.addCommand({
+			id: 'move-unit-start-date',
+			name: 'Move Unit to New Start Date',
+			callback: async () => {
+				await this.moveUnitToNewStartDate();
+			}
+		});
+
 		// NEW: Test real unit assignment with sample data
 		this.addCommand({
 			id: 'test-real-unit-assignment',
@@ -87,12 +209,12 @@ export default class LessonPlannerPlugin extends Plugin {
 			}
 		});
 
-		// Bump commands - placeholders for next steps
+		// Bump commands
 		this.addCommand({
 			id: 'bump-single-class',
 			name: 'Bump Single Class',
 			callback: async () => {
-				new Notice('Single class bump - coming in next step!');
+				await this.bumpSingleClass();
 			}
 		});
 
@@ -100,11 +222,185 @@ export default class LessonPlannerPlugin extends Plugin {
 			id: 'bump-whole-day',
 			name: 'Bump Whole Day',
 			callback: async () => {
-				new Notice('Whole day bump - coming in next step!');
+				this.bumpWholeDay();
+			}
+		});
+
+		this.addCommand({
+			id: 'check-planner-consistency',
+			name: 'Check Planner Consistency',
+			callback: async () => {
+				await this.checkPlannerConsistency();
+			}
+		});
+
+		this.addCommand({
+			id: 'repair-daily-plans',
+			name: 'Repair Daily Plans',
+			callback: async () => {
+				await this.repairDailyPlans();
+			}
+		});
+
+		this.addCommand({
+			id: 'export-schedule-ics',
+			name: 'Export Schedule to Calendar (.ics)',
+			callback: async () => {
+				await this.exportScheduleToCalendar();
+			}
+		});
+
+		this.addCommand({
+			id: 'import-district-calendar',
+			name: 'Import District Calendar (.ics)',
+			callback: async () => {
+				await this.importDistrictCalendar();
+			}
+		});
+
+		// History commands
+		this.addCommand({
+			id: 'undo-planner-operation',
+			name: 'Undo Last Planner Operation',
+			callback: async () => {
+				await this.undoPlannerOperation();
+			}
+		});
+
+		this.addCommand({
+			id: 'redo-planner-operation',
+			name: 'Redo Planner Operation',
+			callback: async () => {
+				await this.redoPlannerOperation();
 			}
 		});
 	}
 
+	private async activateWeeklyView() {
+		const { workspace } = this.app;
+
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_WEEKLY_SCHEDULE)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf(true);
+			await leaf.setViewState({ type: VIEW_TYPE_WEEKLY_SCHEDULE, active: true });
+		}
+
+		workspace.revealLeaf(leaf);
+	}
+
+	private async checkPlannerConsistency() {
+		try {
+			const { workspace } = this.app;
+			let leaf = workspace.getLeavesOfType(VIEW_TYPE_CONSISTENCY_REPORT)[0];
+			if (!leaf) {
+				leaf = workspace.getLeaf(true);
+				await leaf.setViewState({ type: VIEW_TYPE_CONSISTENCY_REPORT, active: true });
+			}
+			// Revealing loads a deferred view, so leaf.view is the report view only after this
+			await workspace.revealLeaf(leaf);
+			if (!(leaf.view instanceof ConsistencyReportView)) {
+				throw new Error('The consistency report view did not open');
+			}
+
+			const report = await leaf.view.refresh();
+			const message = report.issues.length === 0
+				? `✅ Checked ${report.checkedPlans} daily plans - no issues found`
+				: `⚠️ Found ${report.issues.length} issues in ${report.checkedPlans} daily plans`;
+			new Notice(message, 5000);
+			console.log(message);
+		} catch (error) {
+			console.error('Consistency check error:', error);
+			new Notice(`❌ Consistency check error: ${error.message}`, 5000);
+		}
+	}
+
+	private async repairDailyPlans() {
+		// Start from the open daily plan when there is one
+		const activeFile = this.app.workspace.getActiveFile();
+		const date = activeFile && /^\d{4}-\d{2}-\d{2}$/.test(activeFile.basename)
+			? activeFile.basename
+			: getTodayString();
+
+		new RepairDailyPlansModal(this.app, this.consistencyService, this.parserService, date, async (options) => {
+			try {
+				const result = await this.historyService.record(
+					`Repair daily plans ${options.startDate} to ${options.endDate}`,
+					() => this.consistencyService.repairDailyPlans(options)
+				);
+
+				if (result.success) {
+					const message = `✅ ${result.message}`;
+					new Notice(message, 5000);
+					console.log(message);
+				} else {
+					const errorMessage = `❌ Repair failed: ${result.error}`;
+					new Notice(errorMessage, 5000);
+					console.error(errorMessage);
+				}
+			} catch (error) {
+				console.error('Repair error:', error);
+				new Notice(`❌ Repair error: ${error.message}`, 5000);
+			}
+		}).open();
+	}
+
+	private async exportScheduleToCalendar() {
+		const classes = await this.fileService.getClasses();
+		const units = await this.fileService.getUnits();
+
+		new ExportCalendarModal(this.app, classes.map(file => file.basename), units.map(file => file.basename), async (options) => {
+			try {
+				const result = await this.calendarExportService.exportCalendar(options);
+
+				if (result.success) {
+					const message = `✅ ${result.message}`;
+					new Notice(message, 5000);
+					console.log(message);
+				} else {
+					const errorMessage = `❌ Calendar export failed: ${result.error}`;
+					new Notice(errorMessage, 5000);
+					console.error(errorMessage);
+				}
+			} catch (error) {
+				console.error('Calendar export error:', error);
+				new Notice(`❌ Calendar export error: ${error.message}`, 5000);
+			}
+		}).open();
+	}
+
+	private async importDistrictCalendar() {
+		const icsPaths = this.app.vault.getFiles()
+			.filter(file => file.extension === 'ics')
+			.map(file => file.path)
+			.sort();
+		if (icsPaths.length === 0) {
+			new Notice('❌ No .ics files found. Add the district calendar file to the vault first.');
+			return;
+		}
+
+		new ImportCalendarModal(this.app, this.calendarImportService, icsPaths, this.settings.calendarImportRules, async (options) => {
+			try {
+				const result = await this.historyService.record(
+					`Import calendar ${options.icsPath}`,
+					() => this.calendarImportService.importCalendar(options)
+				);
+
+				if (result.success) {
+					const message = `✅ ${result.message}`;
+					new Notice(message, 5000);
+					console.log(message);
+				} else {
+					const errorMessage = `❌ Calendar import failed: ${result.error}`;
+					new Notice(errorMessage, 5000);
+					console.error(errorMessage);
+				}
+			} catch (error) {
+				console.error('Calendar import error:', error);
+				new Notice(`❌ Calendar import error: ${error.message}`, 5000);
+			}
+		}).open();
+	}
+
 	private async testServices() {
 		try {
 			// Use the existing FileService methods
@@ -123,27 +419,253 @@ export default class LessonPlannerPlugin extends Plugin {
 
 	private async assignUnitToClass() {
 		try {
-			// Show progress
-			new Notice('Starting unit assignment workflow...');
-			
-			// Use the unit assignment service (current list-only version)
-			const result = await this.unitAssignmentService.assignUnitToClass();
-			
-			if (result.success) {
-				const message = `✅ Unit assignment workflow ready! ${result.message}`;
-				new Notice(message, 5000);
-				console.log(message);
-			} else {
-				const errorMessage = `❌ Unit assignment failed: ${result.error}`;
-				new Notice(errorMessage, 5000);
-				console.error(errorMessage);
+			const availableUnits = await this.unitAssignmentService.getAvailableUnits();
+			const availableClasses = await this.unitAssignmentService.getAvailableClasses();
+
+			if (availableUnits.length === 0) {
+				new Notice('❌ No units found in Units folder');
+				return;
+			}
+
+			if (availableClasses.length === 0) {
+				new Notice('❌ No classes found in Classes folder');
+				return;
 			}
+
+			new AssignUnitModal(
+				this.app,
+				this.unitAssignmentService,
+				this.parserService,
+				this.scheduleService,
+				availableUnits,
+				availableClasses,
+				async (options) => {
+					try {
+						const result = await this.historyService.record(
+							`Assign ${options.unitName} to ${options.className}`,
+							() => this.unitAssignmentService.assignUnitToClassWithOptions(options)
+						);
+
+						if (result.success) {
+							const message = `✅ Assigned ${options.unitName} to ${options.className}. ${result.message}`;
+							new Notice(message, 5000);
+							console.log(message);
+						} else {
+							const errorMessage = `❌ Unit assignment failed: ${result.error}`;
+							new Notice(errorMessage, 5000);
+							console.error(errorMessage);
+						}
+					} catch (error) {
+						console.error('Unit assignment error:', error);
+						new Notice(`❌ Unit assignment error: ${error.message}`, 5000);
+					}
+				}
+			).open();
 		} catch (error) {
 			console.error('Unit assignment error:', error);
 			new Notice(`❌ Unit assignment error: ${error.message}`, 5000);
 		}
 	}
 
+	private async schedulePacingGuide() {
+		try {
+			const guides: PacingGuide[] = [];
+			const problems: string[] = [];
+			for (const file of await this.fileService.getPacingGuides()) {
+				const content = await this.fileService.readFile(file.path, false);
+				if (content === null) continue;
+
+				const { value, validation } = this.parserService.readPacingGuide(content, file.path);
+				if (value && validation.valid) {
+					guides.push(value);
+				} else {
+					problems.push(...validation.errors);
+				}
+			}
+			problems.forEach(problem => console.warn(problem));
+
+			if (guides.length === 0) {
+				new Notice(problems.length > 0
+					? `❌ No usable pacing guides: ${problems[0]}`
+					: '❌ No pacing guides found in Pacing Guides folder', 5000);
+				return;
+			}
+
+			const classes = await this.fileService.getClasses();
+			new PacingGuideModal(
+				this.app,
+				this.unitAssignmentService,
+				this.parserService,
+				guides,
+				classes.map(file => file.basename),
+				async (options) => {
+					try {
+						const result = await this.historyService.record(
+							`Schedule ${options.unitNames.length} units for ${options.className}`,
+							() => this.unitAssignmentService.scheduleUnitSequence(options)
+						);
+
+						if (result.success) {
+							const message = `✅ ${result.message}`;
+							new Notice(message, 5000);
+							console.log(message);
+						} else {
+							const errorMessage = `❌ Pacing guide failed: ${result.error}`;
+							new Notice(errorMessage, 5000);
+							console.error(errorMessage);
+						}
+					} catch (error) {
+						console.error('Pacing guide error:', error);
+						new Notice(`❌ Pacing guide error: ${error.message}`, 5000);
+					}
+				}
+			).open();
+		} catch (error) {
+			console.error('Pacing guide error:', error);
+			new Notice(`❌ Pacing guide error: ${error.message}`, 5000);
+		}
+	}
+
+	private async unassignUnitFromClass() {
+		try {
+			const classes = await this.getClassesWithUnits();
+			const units = await this.unitAssignmentService.getAvailableUnits();
+
+			if (classes.length === 0) {
+				new Notice('❌ No classes found in Classes folder');
+				return;
+			}
+
+			new UnassignUnitModal(
+				this.app,
+				this.unitAssignmentService,
+				classes,
+				units.map(unit => unit.name),
+				async (options) => {
+					try {
+						const result = await this.historyService.record(
+							`Unassign ${options.unitName} from ${options.className}`,
+							() => this.unitAssignmentService.unassignUnitFromClass(options)
+						);
+
+						if (result.success) {
+							const message = `✅ Unassigned ${options.unitName} from ${options.className}. ${result.message}`;
+							new Notice(message, 5000);
+							console.log(message);
+						} else {
+							const errorMessage = `❌ Unassign failed: ${result.error}`;
+							new Notice(errorMessage, 5000);
+							console.error(errorMessage);
+						}
+					} catch (error) {
+						console.error('Unassign error:', error);
+						new Notice(`❌ Unassign error: ${error.message}`, 5000);
+					}
+				}
+			).open();
+		} catch (error) {
+			console.error('Unassign error:', error);
+			new Notice(`❌ Unassign error: ${error.message}`, 5000);
+		}
+	}
+
+	private async resizeAssignedUnit() {
+		try {
+			const classes = await this.getClassesWithUnits();
+			const units = await this.unitAssignmentService.getAvailableUnits();
+
+			if (classes.length === 0) {
+				new Notice('❌ No classes found in Classes folder');
+				return;
+			}
+
+			new ResizeUnitModal(
+				this.app,
+				this.unitAssignmentService,
+				classes,
+				units,
+				async (options) => {
+					try {
+						const result = await this.historyService.record(
+							`Resize ${options.unitName} for ${options.className} to ${options.totalDays} days`,
+							() => this.unitAssignmentService.resizeUnitAssignment(options)
+						);
+
+						if (result.success) {
+							const message = `✅ ${result.message}`;
+							new Notice(message, 5000);
+							console.log(message);
+						} else {
+							const errorMessage = `❌ Resize failed: ${result.error}`;
+							new Notice(errorMessage, 5000);
+							console.error(errorMessage);
+						}
+					} catch (error) {
+						console.error('Resize unit error:', error);
+						new Notice(`❌ Resize error: ${error.message}`, 5000);
+					}
+				}
+			).open();
+		} catch (error) {
+			console.error('Resize unit error:', error);
+			new Notice(`❌ Resize error: ${error.message}`, 5000);
+		}
+	}
+
+	// Every class with the units listed in its current_units, for the unit pickers
+	private async getClassesWithUnits(): Promise<ClassUnits[]> {
+		const classes: ClassUnits[] = [];
+		for (const file of await this.fileService.getClasses()) {
+			const schedule = await this.scheduleService.getClassSchedule(file.basename);
+			classes.push({ name: file.basename, currentUnits: schedule ? schedule.currentUnits : [] });
+		}
+		return classes;
+	}
+
+	private async moveUnitToNewStartDate() {
+		try {
+			const classes = await this.getClassesWithUnits();
+			const units = await this.unitAssignmentService.getAvailableUnits();
+
+			if (classes.length === 0) {
+				new Notice('❌ No classes found in Classes folder');
+				return;
+			}
+
+			new RescheduleUnitModal(
+				this.app,
+				this.unitAssignmentService,
+				this.parserService,
+				classes,
+				units.map(unit => unit.name),
+				async (options) => {
+					try {
+						const result = await this.historyService.record(
+							`Move ${options.unitName} for ${options.className} to ${options.startDate}`,
+							() => this.unitAssignmentService.rescheduleUnit(options)
+						);
+
+						if (result.success) {
+							const message = `✅ ${result.message}`;
+							new Notice(message, 5000);
+							console.log(message);
+						} else {
+							const errorMessage = `❌ Move failed: ${result.error}`;
+							new Notice(errorMessage, 5000);
+							console.error(errorMessage);
+						}
+					} catch (error) {
+						console.error('Move unit error:', error);
+						new Notice(`❌ Move error: ${error.message}`, 5000);
+					}
+				}
+			).open();
+		} catch (error) {
+			console.error('Move unit error:', error);
+			new Notice(`❌ Move error: ${error.message}`, 5000);
+		}
+	}
+
 	/**
 	 * NEW: Test the real unit assignment logic with sample data
 	 * This will actually create daily plan files
@@ -181,11 +703,14 @@ export default class LessonPlannerPlugin extends Plugin {
 			new Notice(`Testing: ${testUnit.name} → ${testClass.name} starting ${testStartDate}`, 3000);
 			
 			// Execute real unit assignment
-			const result = await this.unitAssignmentService.assignUnitToClassWithOptions({
-				unitName: testUnit.name,
-				className: testClass.name,
-				startDate: testStartDate
-			});
+			const result = await this.historyService.record(
+				`Assign ${testUnit.name} to ${testClass.name}`,
+				() => this.unitAssignmentService.assignUnitToClassWithOptions({
+					unitName: testUnit.name,
+					className: testClass.name,
+					startDate: testStartDate
+				})
+			);
 			
 			if (result.success) {
 				const successMessage = `✅ Real unit assignment test successful!\n${result.message}`;
@@ -215,6 +740,120 @@ export default class LessonPlannerPlugin extends Plugin {
 		}
 	}
 
+	private async bumpSingleClass() {
+		const classes = await this.fileService.getClasses();
+		if (classes.length === 0) {
+			new Notice('❌ No classes found in Classes folder');
+			return;
+		}
+
+		new BumpClassModal(this.app, classes.map(file => file.basename), async (className, fromDate) => {
+			try {
+				const result = await this.historyService.record(
+					`Bump ${className} from ${fromDate}`,
+					() => this.bumpService.bumpClass(className, fromDate)
+				);
+
+				if (result.success && result.movements) {
+					const warnings = result.scheduleWarnings || 0;
+					const message = `✅ Bumped ${className}: moved ${result.movements.length} entries` +
+						(warnings > 0 ? `, ${warnings} schedule warnings` : '') +
+						this.describeSkippedHolidays(result.movements) +
+						this.describeTermChanges(result.movements);
+					new Notice(message, 5000);
+					console.log('Bump Single Class Results:', result.movements.map(m => `${m.from} → ${m.to}`));
+				} else {
+					const errorMessage = `❌ Bump failed: ${result.error}`;
+					new Notice(errorMessage, 5000);
+					console.error(errorMessage);
+				}
+			} catch (error) {
+				console.error('Bump single class error:', error);
+				new Notice(`❌ Bump error: ${error.message}`, 5000);
+			}
+		}).open();
+	}
+
+	private bumpWholeDay() {
+		new BumpDayModal(this.app, async (date) => {
+			try {
+				const result = await this.historyService.record(
+					`Bump whole day ${date}`,
+					() => this.bumpService.bumpDay(date)
+				);
+
+				if (result.success && result.movements) {
+					const classCount = result.movements.reduce((sum, m) => sum + (m.classCount || 0), 0);
+					const warnings = result.scheduleWarnings || 0;
+					const message = `✅ Cancelled ${date}: moved ${classCount} class entries` +
+						(warnings > 0 ? `, ${warnings} schedule warnings` : '') +
+						this.describeSkippedHolidays(result.movements) +
+						this.describeTermChanges(result.movements);
+					new Notice(message, 5000);
+					console.log('Bump Whole Day Results:', result.movements.map(m => `${m.from} → ${m.to} (${m.classCount} classes)`));
+				} else {
+					const errorMessage = `❌ Bump failed: ${result.error}`;
+					new Notice(errorMessage, 5000);
+					console.error(errorMessage);
+				}
+			} catch (error) {
+				console.error('Bump whole day error:', error);
+				new Notice(`❌ Bump error: ${error.message}`, 5000);
+			}
+		}).open();
+	}
+
+	// Explain longer-than-usual moves, e.g. "\nSkipped: Winter Break (2025-12-22 to 2026-01-02)"
+	private describeSkippedHolidays(movements: Movement[]): string {
+		const holidays = movements.reduce((all, m) => all.concat(m.skippedHolidays || []), [] as HolidayEntry[]);
+		return holidays.length > 0 ? `\nSkipped: ${this.scheduleService.describeHolidays(holidays)}` : '';
+	}
+
+	// Entries that left their term, e.g. "\n⚠️ 2 entries moved into Spring Semester"
+	private describeTermChanges(movements: Movement[]): string {
+		const counts = new Map<string, number>();
+		for (const m of movements) {
+			if (m.termChange) counts.set(m.termChange, (counts.get(m.termChange) || 0) + (m.classCount || 1));
+		}
+		return Array.from(counts.entries())
+			.map(([term, count]) => `\n⚠️ ${count} ${count === 1 ? 'entry' : 'entries'} moved into ${term}`)
+			.join('');
+	}
+
+	private async undoPlannerOperation() {
+		try {
+			const result = await this.historyService.undo();
+			this.reportHistoryResult('Undo', result);
+		} catch (error) {
+			console.error('Undo error:', error);
+			new Notice(`❌ Undo error: ${error.message}`, 5000);
+		}
+	}
+
+	private async redoPlannerOperation() {
+		try {
+			const result = await this.historyService.redo();
+			this.reportHistoryResult('Redo', result);
+		} catch (error) {
+			console.error('Redo error:', error);
+			new Notice(`❌ Redo error: ${error.message}`, 5000);
+		}
+	}
+
+	private reportHistoryResult(action: string, result: HistoryResult) {
+		if (result.success) {
+			const message = `↩️ ${action}: ${result.operation} (${result.files?.length || 0} files restored)`;
+			new Notice(message, 5000);
+			console.log(message, result.files);
+		} else if (result.editedFiles) {
+			const message = `❌ ${action} refused: ${result.error}. Revert those edits first:\n${result.editedFiles.join('\n')}`;
+			new Notice(message, 10000);
+			console.warn(message);
+		} else {
+			new Notice(`❌ ${action} failed: ${result.error}`, 5000);
+		}
+	}
+
 	/**
 	 * Helper method to get next Monday's date in YYYY-MM-DD format
 	 */
@@ -274,5 +913,85 @@ class LessonPlannerSettingTab extends PluginSettingTab {
 					this.plugin.settings.enableDebugLogging = value;
 					await this.plugin.saveSettings();
 				}));
+
+		const windowSetting = new Setting(containerEl)
+			.setName('School Day Window')
+			.setDesc('Class times written without AM/PM (like 7:15) are read as whichever falls inside this window')
+			.addText(text => text
+				.setPlaceholder('7:00 AM')
+				.setValue(this.plugin.settings.schoolDayStart)
+				.onChange(async (value) => {
+					await this.updateSchoolDayWindow(windowSetting, value.trim(), this.plugin.settings.schoolDayEnd);
+				}))
+			.addText(text => text
+				.setPlaceholder('6:00 PM')
+				.setValue(this.plugin.settings.schoolDayEnd)
+				.onChange(async (value) => {
+					await this.updateSchoolDayWindow(windowSetting, this.plugin.settings.schoolDayStart, value.trim());
+				}));
+
+		containerEl.createEl('h3', {text: 'Templates'});
+
+		new Setting(containerEl)
+			.setName('Daily Plan Template')
+			.setDesc('Note used for new daily plans, e.g. Templates/Daily Plan.md. Placeholders: {{date}}, {{weekday}}, {{longDate}}, {{cycleDay}}. Leave empty for the built-in layout.')
+			.addText(text => text
+				.setPlaceholder('Templates/Daily Plan.md')
+				.setValue(this.plugin.settings.dailyPlanTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.dailyPlanTemplate = value.trim();
+					await this.saveTemplatePaths();
+				}));
+
+		new Setting(containerEl)
+			.setName('Class Entry Template')
+			.setDesc('Note used for each class block. Placeholders: {{class}}, {{unit}}, {{day}}, {{total}}, {{time}}, {{scheduleNote}}, {{date}}, {{weekday}}. The "## time - class" heading and the Unit and Day lines are added if missing.')
+			.addText(text => text
+				.setPlaceholder('Templates/Class Entry.md')
+				.setValue(this.plugin.settings.classEntryTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.classEntryTemplate = value.trim();
+					await this.saveTemplatePaths();
+				}));
+
+		containerEl.createEl('h3', {text: 'Calendar Import'});
+
+		const rulesDescription = 'One rule per line: "keyword => holiday" adds matching events to School Holidays.md, "keyword => Schedule Name" adds them under that heading in Special Schedules.md. The first matching rule wins.';
+		const rulesSetting = new Setting(containerEl)
+			.setName('Import Rules')
+			.setDesc(rulesDescription)
+			.addTextArea(text => text
+				.setValue(this.plugin.settings.calendarImportRules)
+				.onChange(async (value) => {
+					// Like the school day window, only rules that parse are saved
+					const { errors } = this.plugin.calendarImportService.parseRules(value);
+					if (errors.length > 0) {
+						rulesSetting.setDesc(`❌ ${errors.join('; ')}`);
+						return;
+					}
+
+					rulesSetting.setDesc(rulesDescription);
+					this.plugin.settings.calendarImportRules = value;
+					await this.plugin.saveSettings();
+				}));
+		rulesSetting.controlEl.querySelector('textarea')?.setAttr('rows', 6);
+	}
+
+	private async saveTemplatePaths() {
+		this.plugin.templateService.setTemplatePaths(this.plugin.settings.dailyPlanTemplate, this.plugin.settings.classEntryTemplate);
+		await this.plugin.saveSettings();
+	}
+
+	// Only save a window that parses, so half-typed times don't change how existing notes sort
+	private async updateSchoolDayWindow(setting: Setting, start: string, end: string) {
+		if (!this.plugin.parserService.setSchoolDayWindow(start, end)) {
+			setting.setDesc('❌ Enter times like 7:00 AM and 6:00 PM (or 24-hour 07:00 and 18:00), with the end after the start');
+			return;
+		}
+
+		setting.setDesc('Class times written without AM/PM (like 7:15) are read as whichever falls inside this window');
+		this.plugin.settings.schoolDayStart = start;
+		this.plugin.settings.schoolDayEnd = end;
+		await this.plugin.saveSettings();
 	}
 }
\ No newline at end of file
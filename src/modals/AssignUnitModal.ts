@@ -0,0 +1,252 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import { ParserService } from '../services/ParserService';
+import { ScheduleService } from '../services/ScheduleService';
+import {
+    UnitAssignmentOptions,
+    UnitAssignmentResult,
+    UnitAssignmentService
+} from '../services/UnitAssignmentService';
+import { ItemSuggestModal } from './ItemSuggestModal';
+import { getTodayString, getWeekdayName } from '../utils/dateUtils';
+import { renderFileChanges } from './renderFileChanges';
+
+interface UnitChoice {
+    name: string;
+    duration: number;
+}
+
+interface ClassChoice {
+    name: string;
+    dayOfWeek: string;
+    time: string;
+}
+
+/**
+ * Pick a unit, a class and a start date, preview the resulting meetings,
+ * and only write daily plans once the preview is confirmed
+ */
+export class AssignUnitModal extends Modal {
+    private unitAssignmentService: UnitAssignmentService;
+    private parserService: ParserService;
+    private scheduleService: ScheduleService;
+    private units: UnitChoice[];
+    private classes: ClassChoice[];
+    private onConfirm: (options: UnitAssignmentOptions) => Promise<void>;
+
+    private selectedUnit: UnitChoice | null = null;
+    private selectedClass: ClassChoice | null = null;
+    private startDate: string = getTodayString();
+    private preview: UnitAssignmentResult | null = null;
+
+    private previewEl: HTMLElement;
+    private assignButton: ButtonComponent;
+
+    constructor(
+        app: App,
+        unitAssignmentService: UnitAssignmentService,
+        parserService: ParserService,
+        scheduleService: ScheduleService,
+        units: UnitChoice[],
+        classes: ClassChoice[],
+        onConfirm: (options: UnitAssignmentOptions) => Promise<void>
+    ) {
+        super(app);
+        this.unitAssignmentService = unitAssignmentService;
+        this.parserService = parserService;
+        this.scheduleService = scheduleService;
+        this.units = units;
+        this.classes = classes;
+        this.onConfirm = onConfirm;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('lesson-planner-modal');
+
+        contentEl.createEl('h2', { text: 'Assign Unit to Class' });
+
+        const unitSetting = new Setting(contentEl)
+            .setName('Unit')
+            .setDesc('No unit selected')
+            .addButton(button => button
+                .setButtonText('Choose unit')
+                .onClick(() => {
+                    new ItemSuggestModal(this.app, this.units, unit => `${unit.name} (${unit.duration} days)`, unit => {
+                        this.selectedUnit = unit;
+                        unitSetting.setDesc(`${unit.name} (${unit.duration} days)`);
+                        this.invalidatePreview();
+                    }, 'Search units...').open();
+                }));
+
+        const classSetting = new Setting(contentEl)
+            .setName('Class')
+            .setDesc('No class selected')
+            .addButton(button => button
+                .setButtonText('Choose class')
+                .onClick(() => {
+                    new ItemSuggestModal(this.app, this.classes, cls => `${cls.name} (${cls.dayOfWeek} ${cls.time})`, cls => {
+                        this.selectedClass = cls;
+                        classSetting.setDesc(`${cls.name} (${cls.dayOfWeek} ${cls.time})`);
+                        this.invalidatePreview();
+                    }, 'Search classes...').open();
+                }));
+
+        const dateSetting = new Setting(contentEl)
+            .setName('Start date')
+            .setDesc('First day of the unit (YYYY-MM-DD)')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.startDate)
+                .onChange(value => {
+                    this.startDate = value.trim();
+                    const validation = this.parserService.validateDate(this.startDate);
+                    dateSetting.setDesc(validation.valid
+                        ? 'First day of the unit (YYYY-MM-DD)'
+                        : `❌ ${validation.errors.join(', ')}`);
+                    this.invalidatePreview();
+                }));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Preview')
+                .onClick(async () => {
+                    await this.loadPreview();
+                }))
+            .addButton(button => {
+                this.assignButton = button;
+                button
+                    .setButtonText('Assign')
+                    .setCta()
+                    .setDisabled(true)
+                    .onClick(async () => {
+                        const options = this.getOptions();
+                        if (!options || !this.preview?.success) return;
+
+                        button.setDisabled(true);
+                        this.close();
+                        await this.onConfirm(options);
+                    });
+            });
+
+        this.previewEl = contentEl.createDiv({ cls: 'lesson-planner-preview' });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private getOptions(): UnitAssignmentOptions | null {
+        if (!this.selectedUnit || !this.selectedClass) {
+            return null;
+        }
+        return {
+            unitName: this.selectedUnit.name,
+            className: this.selectedClass.name,
+            startDate: this.startDate
+        };
+    }
+
+    // Any change to the inputs means the preview no longer reflects what would be written
+    private invalidatePreview() {
+        this.preview = null;
+        this.assignButton?.setDisabled(true);
+        this.previewEl?.empty();
+    }
+
+    private async loadPreview() {
+        this.invalidatePreview();
+
+        const options = this.getOptions();
+        if (!options) {
+            this.previewEl.createEl('p', { text: 'Choose a unit and a class first.' });
+            return;
+        }
+
+        const validation = this.parserService.validateDate(options.startDate);
+        if (!validation.valid) {
+            this.previewEl.createEl('p', { text: `❌ ${validation.errors.join(', ')}` });
+            return;
+        }
+
+        this.previewEl.createEl('p', { text: 'Calculating meetings...' });
+        const preview = await this.unitAssignmentService.assignUnitToClassWithOptions({ ...options, dryRun: true });
+        this.previewEl.empty();
+
+        if (!preview.success || !preview.changeSet) {
+            this.previewEl.createEl('p', { text: `❌ ${preview.error}` });
+            return;
+        }
+
+        this.preview = preview;
+        this.renderPreview(preview);
+        this.assignButton.setDisabled(false);
+    }
+
+    private renderPreview(preview: UnitAssignmentResult) {
+        if (!preview.changeSet) return;
+        const { entries, files } = preview.changeSet;
+        const warnings = entries.filter(entry => entry.hasScheduleWarning).length;
+        const conflicts = entries.filter(entry => entry.conflict).length;
+        const duplicates = entries.filter(entry => entry.duplicate).length;
+        const termChanges = entries.filter(entry => entry.termChange).length;
+
+        const summary = [`${entries.length} meetings`];
+        if (entries.length > 0) {
+            summary.push(`${entries[0].date} → ${entries[entries.length - 1].date}`);
+        }
+        if (warnings > 0) summary.push(`${warnings} schedule warnings`);
+        if (conflicts > 0) summary.push(`${conflicts} time conflicts`);
+        if (duplicates > 0) summary.push(`${duplicates} already scheduled`);
+        if (termChanges > 0) summary.push(`${termChanges} term changes`);
+        this.previewEl.createEl('p', { text: summary.join(' · ') });
+
+        // Broken ![[Unit#Day N]] embeds are easier to fix in the unit before it is assigned
+        for (const warning of preview.changeSet.unitWarnings) {
+            this.previewEl.createEl('p', { text: `⚠️ ${warning}` });
+        }
+
+        const table = this.previewEl.createEl('table', { cls: 'lesson-planner-preview-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        for (const heading of ['Day', 'Date', 'Weekday', 'Time', 'Notes']) {
+            headerRow.createEl('th', { text: heading });
+        }
+
+        const body = table.createEl('tbody');
+        for (const entry of entries) {
+            // Say why the gap before this meeting is longer than usual
+            if (entry.skippedHolidays.length > 0) {
+                const holidayRow = body.createEl('tr', { cls: 'lesson-planner-muted' });
+                holidayRow.createEl('td', {
+                    text: `No class: ${this.scheduleService.describeHolidays(entry.skippedHolidays)}`,
+                    attr: { colspan: '5' }
+                });
+            }
+
+            const row = body.createEl('tr');
+            if (entry.hasScheduleWarning || entry.conflict) {
+                row.addClass('lesson-planner-warning');
+            }
+            if (entry.duplicate) {
+                row.addClass('lesson-planner-muted');
+            }
+
+            const notes: string[] = [];
+            if (entry.scheduleNote) notes.push(entry.scheduleNote.trim().replace(/^\(|\)$/g, ''));
+            for (const overlap of entry.overlaps) {
+                notes.push(`⚠️ ${this.parserService.describeOverlap(overlap)}`);
+            }
+            if (entry.termChange) notes.push(`⚠️ First meeting of ${entry.termChange}`);
+            if (entry.duplicate) notes.push('Already scheduled - will be skipped');
+
+            row.createEl('td', { text: `${entry.dayNumber} of ${entry.totalDays}` });
+            row.createEl('td', { text: entry.date });
+            row.createEl('td', { text: getWeekdayName(entry.date) });
+            row.createEl('td', { text: entry.time });
+            row.createEl('td', { text: notes.join('; ') });
+        }
+
+        // Exact file changes, collapsed so large assignments stay readable
+        renderFileChanges(this.previewEl, files);
+    }
+}
@@ -0,0 +1,191 @@
+import { App, ButtonComponent, DropdownComponent, Modal, Setting } from 'obsidian';
+import { PlannedFileChange } from '../types';
+import { renderFileChanges } from './renderFileChanges';
+
+export interface ClassUnits {
+    name: string;
+    currentUnits: string[];
+}
+
+export interface UnitPreviewResult {
+    success: boolean;
+    message?: string;
+    error?: string;
+    files?: PlannedFileChange[];
+}
+
+/**
+ * Base for modals that pick a class and one of its units, preview the change as a dry run,
+ * then apply it. Subclasses add their own fields and run the service call.
+ */
+export abstract class AssignedUnitModal<TOptions, TResult extends UnitPreviewResult> extends Modal {
+    protected classes: ClassUnits[];
+    protected unitNames: string[];
+    private onConfirm: (options: TOptions) => Promise<void>;
+
+    protected className: string;
+    protected unitName = '';
+    private preview: TResult | null = null;
+
+    private unitDropdown: DropdownComponent;
+    private previewEl: HTMLElement;
+    private confirmButton: ButtonComponent;
+
+    constructor(
+        app: App,
+        classes: ClassUnits[],
+        unitNames: string[],
+        onConfirm: (options: TOptions) => Promise<void>
+    ) {
+        super(app);
+        this.classes = classes;
+        this.unitNames = unitNames;
+        this.onConfirm = onConfirm;
+        this.className = classes[0]?.name || '';
+    }
+
+    protected abstract getTitle(): string;
+
+    // Label of the button that applies the change
+    protected abstract getConfirmText(): string;
+
+    // Settings shown between the unit dropdown and the buttons
+    protected abstract addFields(containerEl: HTMLElement): void;
+
+    protected abstract getOptions(): TOptions;
+
+    // The service call with dryRun set
+    protected abstract runPreview(options: TOptions): Promise<TResult>;
+
+    // Reason the preview can't run yet, or null when the fields are complete
+    protected checkFields(): string | null {
+        return this.className && this.unitName ? null : 'Choose a class and a unit first.';
+    }
+
+    // Extra preview content shown above the file changes
+    protected renderPreviewDetails(previewEl: HTMLElement, preview: TResult): void {}
+
+    // Called whenever the selected class or unit changes
+    protected onUnitChanged(): void {}
+
+    // Whether the confirm button removes entries and should be styled as a warning
+    protected isDestructive(): boolean {
+        return false;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('lesson-planner-modal');
+
+        contentEl.createEl('h2', { text: this.getTitle() });
+
+        new Setting(contentEl)
+            .setName('Class')
+            .addDropdown(dropdown => {
+                for (const cls of this.classes) {
+                    dropdown.addOption(cls.name, cls.name);
+                }
+                dropdown
+                    .setValue(this.className)
+                    .onChange(value => {
+                        this.className = value;
+                        this.populateUnits();
+                        this.invalidatePreview();
+                    });
+            });
+
+        new Setting(contentEl)
+            .setName('Unit')
+            .setDesc('Units currently assigned to the class are listed first')
+            .addDropdown(dropdown => {
+                this.unitDropdown = dropdown;
+                dropdown.onChange(value => {
+                    this.unitName = value;
+                    this.onUnitChanged();
+                    this.invalidatePreview();
+                });
+            });
+
+        this.addFields(contentEl);
+        this.populateUnits();
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Preview')
+                .onClick(async () => {
+                    await this.loadPreview();
+                }))
+            .addButton(button => {
+                this.confirmButton = button;
+                button.setButtonText(this.getConfirmText());
+                if (this.isDestructive()) {
+                    button.setWarning();
+                } else {
+                    button.setCta();
+                }
+                button
+                    .setDisabled(true)
+                    .onClick(async () => {
+                        if (!this.preview?.success) return;
+
+                        button.setDisabled(true);
+                        this.close();
+                        await this.onConfirm(this.getOptions());
+                    });
+            });
+
+        this.previewEl = contentEl.createDiv({ cls: 'lesson-planner-preview' });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    protected invalidatePreview() {
+        this.preview = null;
+        this.confirmButton?.setDisabled(true);
+        this.previewEl?.empty();
+    }
+
+    private populateUnits() {
+        if (!this.unitDropdown) return;
+
+        const currentUnits = this.classes.find(cls => cls.name === this.className)?.currentUnits || [];
+        const otherUnits = this.unitNames.filter(name => !currentUnits.includes(name));
+
+        this.unitDropdown.selectEl.empty();
+        for (const name of [...currentUnits, ...otherUnits]) {
+            this.unitDropdown.addOption(name, name);
+        }
+
+        this.unitName = currentUnits[0] || otherUnits[0] || '';
+        this.unitDropdown.setValue(this.unitName);
+        this.onUnitChanged();
+    }
+
+    private async loadPreview() {
+        this.invalidatePreview();
+
+        const problem = this.checkFields();
+        if (problem) {
+            this.previewEl.createEl('p', { text: problem });
+            return;
+        }
+
+        this.previewEl.createEl('p', { text: 'Calculating changes...' });
+        const preview = await this.runPreview(this.getOptions());
+        this.previewEl.empty();
+
+        if (!preview.success || !preview.files) {
+            this.previewEl.createEl('p', { text: `❌ ${preview.error}` });
+            return;
+        }
+
+        this.preview = preview;
+        this.previewEl.createEl('p', { text: preview.message || '' });
+        this.renderPreviewDetails(this.previewEl, preview);
+        renderFileChanges(this.previewEl, preview.files);
+        this.confirmButton.setDisabled(false);
+    }
+}
@@ -0,0 +1,62 @@
+import { App, Modal, Setting } from 'obsidian';
+import { getTodayString } from '../utils/dateUtils';
+
+/**
+ * Collects the class and starting date for a single-class bump
+ */
+export class BumpClassModal extends Modal {
+    private classNames: string[];
+    private onSubmit: (className: string, fromDate: string) => void;
+    private className: string;
+    private fromDate: string;
+
+    constructor(app: App, classNames: string[], onSubmit: (className: string, fromDate: string) => void) {
+        super(app);
+        this.classNames = classNames;
+        this.onSubmit = onSubmit;
+        this.className = classNames[0] || '';
+        this.fromDate = getTodayString();
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Bump Single Class' });
+        contentEl.createEl('p', {
+            text: 'Every entry for the class on or after this date moves to the class\'s next meeting.'
+        });
+
+        new Setting(contentEl)
+            .setName('Class')
+            .addDropdown(dropdown => {
+                for (const name of this.classNames) {
+                    dropdown.addOption(name, name);
+                }
+                dropdown
+                    .setValue(this.className)
+                    .onChange(value => this.className = value);
+            });
+
+        new Setting(contentEl)
+            .setName('From date')
+            .setDesc('First missed meeting (YYYY-MM-DD)')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.fromDate)
+                .onChange(value => this.fromDate = value.trim()));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Bump')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onSubmit(this.className, this.fromDate);
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
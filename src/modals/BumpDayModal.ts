@@ -0,0 +1,47 @@
+import { App, Modal, Setting } from 'obsidian';
+import { getTodayString } from '../utils/dateUtils';
+
+/**
+ * Collects the cancelled date for a whole-day bump
+ */
+export class BumpDayModal extends Modal {
+    private onSubmit: (date: string) => void;
+    private date: string;
+
+    constructor(app: App, onSubmit: (date: string) => void) {
+        super(app);
+        this.onSubmit = onSubmit;
+        this.date = getTodayString();
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Bump Whole Day' });
+        contentEl.createEl('p', {
+            text: 'Every class on this day moves to its next meeting. The day\'s note is kept and marked as cancelled.'
+        });
+
+        new Setting(contentEl)
+            .setName('Cancelled date')
+            .setDesc('Snow day or closure (YYYY-MM-DD)')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.date)
+                .onChange(value => this.date = value.trim()));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Bump Day')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onSubmit(this.date);
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,79 @@
+import { App, Modal, Setting } from 'obsidian';
+import { CalendarExportOptions } from '../services/CalendarExportService';
+
+/**
+ * Collects the filters and file name for an .ics export of the teaching schedule
+ */
+export class ExportCalendarModal extends Modal {
+    private classNames: string[];
+    private unitNames: string[];
+    private onSubmit: (options: CalendarExportOptions) => void;
+    private options: CalendarExportOptions = { outputPath: 'Teaching Schedule.ics' };
+
+    constructor(app: App, classNames: string[], unitNames: string[], onSubmit: (options: CalendarExportOptions) => void) {
+        super(app);
+        this.classNames = classNames;
+        this.unitNames = unitNames;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: 'Export Schedule to Calendar' });
+        contentEl.createEl('p', {
+            text: 'Each class entry in the daily plans becomes a calendar event. Importing a newer export updates the same events.'
+        });
+
+        new Setting(contentEl)
+            .setName('Class')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'All classes');
+                for (const name of this.classNames) {
+                    dropdown.addOption(name, name);
+                }
+                dropdown.onChange(value => this.options.className = value || undefined);
+            });
+
+        new Setting(contentEl)
+            .setName('Unit')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'All units');
+                for (const name of this.unitNames) {
+                    dropdown.addOption(name, name);
+                }
+                dropdown.onChange(value => this.options.unitName = value || undefined);
+            });
+
+        new Setting(contentEl)
+            .setName('Date range')
+            .setDesc('Optional first and last dates (YYYY-MM-DD)')
+            .addText(text => text
+                .setPlaceholder('Start')
+                .onChange(value => this.options.startDate = value.trim() || undefined))
+            .addText(text => text
+                .setPlaceholder('End')
+                .onChange(value => this.options.endDate = value.trim() || undefined));
+
+        new Setting(contentEl)
+            .setName('File')
+            .setDesc('Saved inside the lesson planning folder')
+            .addText(text => text
+                .setValue(this.options.outputPath)
+                .onChange(value => this.options.outputPath = value.trim()));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Export')
+                .setCta()
+                .onClick(() => {
+                    this.close();
+                    this.onSubmit({ ...this.options });
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
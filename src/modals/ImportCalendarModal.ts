@@ -0,0 +1,147 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import {
+    CALENDAR_IMPORT_MARKER,
+    CalendarImportOptions,
+    CalendarImportResult,
+    CalendarImportService
+} from '../services/CalendarImportService';
+import { renderFileChanges } from './renderFileChanges';
+
+/**
+ * Pick an .ics file from the vault, preview the holiday and special schedule lines it adds
+ * and removes, then write them
+ */
+export class ImportCalendarModal extends Modal {
+    private calendarImportService: CalendarImportService;
+    private icsPaths: string[];
+    private rules: string;
+    private onConfirm: (options: CalendarImportOptions) => Promise<void>;
+
+    private icsPath: string;
+    private preview: CalendarImportResult | null = null;
+
+    private previewEl: HTMLElement;
+    private importButton: ButtonComponent;
+
+    constructor(
+        app: App,
+        calendarImportService: CalendarImportService,
+        icsPaths: string[],
+        rules: string,
+        onConfirm: (options: CalendarImportOptions) => Promise<void>
+    ) {
+        super(app);
+        this.calendarImportService = calendarImportService;
+        this.icsPaths = icsPaths;
+        this.rules = rules;
+        this.onConfirm = onConfirm;
+        this.icsPath = icsPaths[0] || '';
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('lesson-planner-modal');
+
+        contentEl.createEl('h2', { text: 'Import District Calendar' });
+        contentEl.createEl('p', {
+            cls: 'lesson-planner-muted',
+            text: 'Events are matched by the keyword rules in settings. Only lines above the "---" separator are changed.'
+        });
+
+        new Setting(contentEl)
+            .setName('Calendar file')
+            .setDesc('.ics files in this vault')
+            .addDropdown(dropdown => {
+                for (const path of this.icsPaths) {
+                    dropdown.addOption(path, path);
+                }
+                dropdown
+                    .setValue(this.icsPath)
+                    .onChange(value => {
+                        this.icsPath = value;
+                        this.invalidatePreview();
+                    });
+            });
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Preview')
+                .onClick(async () => {
+                    await this.loadPreview();
+                }))
+            .addButton(button => {
+                this.importButton = button;
+                button
+                    .setButtonText('Import')
+                    .setCta()
+                    .setDisabled(true)
+                    .onClick(async () => {
+                        if (!this.preview?.success) return;
+
+                        button.setDisabled(true);
+                        this.close();
+                        await this.onConfirm(this.getOptions());
+                    });
+            });
+
+        this.previewEl = contentEl.createDiv({ cls: 'lesson-planner-preview' });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private getOptions(): CalendarImportOptions {
+        return { icsPath: this.icsPath, rules: this.rules };
+    }
+
+    private invalidatePreview() {
+        this.preview = null;
+        this.importButton?.setDisabled(true);
+        this.previewEl?.empty();
+    }
+
+    private async loadPreview() {
+        this.invalidatePreview();
+
+        const preview = await this.calendarImportService.importCalendar({ ...this.getOptions(), dryRun: true });
+        if (!preview.success || !preview.changes || !preview.files) {
+            this.previewEl.createEl('p', { text: `❌ ${preview.error}` });
+            return;
+        }
+
+        this.previewEl.createEl('p', { text: preview.message || '' });
+
+        if (preview.changes.length > 0) {
+            const table = this.previewEl.createEl('table', { cls: 'lesson-planner-preview-table' });
+            const headerRow = table.createEl('thead').createEl('tr');
+            for (const heading of ['', 'File', 'Entry']) {
+                headerRow.createEl('th', { text: heading });
+            }
+
+            const body = table.createEl('tbody');
+            for (const change of preview.changes) {
+                const row = body.createEl('tr', { cls: change.action === 'remove' ? 'lesson-planner-warning' : '' });
+                row.createEl('td', { text: change.action === 'add' ? '+' : '−' });
+                row.createEl('td', { text: change.section ? `${change.file} › ${change.section}` : change.file });
+                row.createEl('td', { text: change.line.replace(CALENDAR_IMPORT_MARKER, '').trim() });
+            }
+        }
+
+        if (preview.unmatched && preview.unmatched.length > 0) {
+            const unmatchedEl = this.previewEl.createEl('details');
+            unmatchedEl.createEl('summary', { text: `${preview.unmatched.length} events not imported (no rule matched)` });
+            const list = unmatchedEl.createEl('ul');
+            for (const summary of preview.unmatched) {
+                list.createEl('li', { text: summary });
+            }
+        }
+
+        if (preview.files.length === 0) return;
+
+        this.preview = preview;
+        renderFileChanges(this.previewEl, preview.files);
+        this.importButton.setDisabled(false);
+    }
+}
@@ -0,0 +1,32 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+
+/**
+ * Generic fuzzy picker used for choosing units and classes
+ */
+export class ItemSuggestModal<T> extends FuzzySuggestModal<T> {
+    private items: T[];
+    private getText: (item: T) => string;
+    private onChoose: (item: T) => void;
+
+    constructor(app: App, items: T[], getText: (item: T) => string, onChoose: (item: T) => void, placeholder?: string) {
+        super(app);
+        this.items = items;
+        this.getText = getText;
+        this.onChoose = onChoose;
+        if (placeholder) {
+            this.setPlaceholder(placeholder);
+        }
+    }
+
+    getItems(): T[] {
+        return this.items;
+    }
+
+    getItemText(item: T): string {
+        return this.getText(item);
+    }
+
+    onChooseItem(item: T): void {
+        this.onChoose(item);
+    }
+}
@@ -0,0 +1,235 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import { ParserService } from '../services/ParserService';
+import { PacingOptions, PacingResult, UnitAssignmentService } from '../services/UnitAssignmentService';
+import { PacingGuide } from '../types';
+import { getTodayString } from '../utils/dateUtils';
+import { renderFileChanges } from './renderFileChanges';
+
+/**
+ * Pick a pacing guide and a class, preview every unit laid out back to back,
+ * and write the whole sequence once the preview is confirmed
+ */
+export class PacingGuideModal extends Modal {
+    private unitAssignmentService: UnitAssignmentService;
+    private parserService: ParserService;
+    private guides: PacingGuide[];
+    private classNames: string[];
+    private onConfirm: (options: PacingOptions) => Promise<void>;
+
+    private guide: PacingGuide | null;
+    private className = '';
+    private startDate = '';
+    private endDate = '';
+    private preview: PacingResult | null = null;
+
+    private settingsEl: HTMLElement;
+    private previewEl: HTMLElement;
+    private scheduleButton: ButtonComponent;
+
+    constructor(
+        app: App,
+        unitAssignmentService: UnitAssignmentService,
+        parserService: ParserService,
+        guides: PacingGuide[],
+        classNames: string[],
+        onConfirm: (options: PacingOptions) => Promise<void>
+    ) {
+        super(app);
+        this.unitAssignmentService = unitAssignmentService;
+        this.parserService = parserService;
+        this.guides = guides;
+        this.classNames = classNames;
+        this.onConfirm = onConfirm;
+        this.guide = guides[0] || null;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('lesson-planner-modal');
+
+        contentEl.createEl('h2', { text: 'Schedule Pacing Guide' });
+
+        new Setting(contentEl)
+            .setName('Pacing guide')
+            .setDesc('Notes in the Pacing Guides folder')
+            .addDropdown(dropdown => {
+                for (const guide of this.guides) {
+                    dropdown.addOption(guide.filePath, guide.name);
+                }
+                dropdown
+                    .setValue(this.guide?.filePath || '')
+                    .onChange(value => {
+                        this.guide = this.guides.find(guide => guide.filePath === value) || null;
+                        this.renderSettings();
+                        this.invalidatePreview();
+                    });
+            });
+
+        this.settingsEl = contentEl.createDiv();
+        this.renderSettings();
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Preview')
+                .onClick(async () => {
+                    await this.loadPreview();
+                }))
+            .addButton(button => {
+                this.scheduleButton = button;
+                button
+                    .setButtonText('Schedule')
+                    .setCta()
+                    .setDisabled(true)
+                    .onClick(async () => {
+                        const options = this.getOptions();
+                        if (!options || !this.preview?.success) return;
+
+                        button.setDisabled(true);
+                        this.close();
+                        await this.onConfirm(options);
+                    });
+            });
+
+        this.previewEl = contentEl.createDiv({ cls: 'lesson-planner-preview' });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    // Class and dates default to what the chosen guide's frontmatter says
+    private renderSettings() {
+        this.settingsEl.empty();
+        this.className = this.guide?.className && this.classNames.includes(this.guide.className)
+            ? this.guide.className
+            : this.classNames[0] || '';
+        this.startDate = this.guide?.startDate || getTodayString();
+        this.endDate = this.guide?.endDate || '';
+
+        if (this.guide) {
+            this.settingsEl.createEl('p', {
+                cls: 'lesson-planner-muted',
+                text: `Units: ${this.guide.units.join(' → ')}`
+            });
+        }
+
+        new Setting(this.settingsEl)
+            .setName('Class')
+            .addDropdown(dropdown => {
+                for (const name of this.classNames) {
+                    dropdown.addOption(name, name);
+                }
+                dropdown
+                    .setValue(this.className)
+                    .onChange(value => {
+                        this.className = value;
+                        this.invalidatePreview();
+                    });
+            });
+
+        new Setting(this.settingsEl)
+            .setName('Start date')
+            .setDesc('First day of the first unit (YYYY-MM-DD)')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.startDate)
+                .onChange(value => {
+                    this.startDate = value.trim();
+                    this.invalidatePreview();
+                }));
+
+        new Setting(this.settingsEl)
+            .setName('End of year')
+            .setDesc('Optional; units still running after this date are flagged. Nothing is scheduled past the last day in School Year.md')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.endDate)
+                .onChange(value => {
+                    this.endDate = value.trim();
+                    this.invalidatePreview();
+                }));
+    }
+
+    private getOptions(): PacingOptions | null {
+        if (!this.guide || !this.className) {
+            return null;
+        }
+        return {
+            className: this.className,
+            unitNames: this.guide.units,
+            startDate: this.startDate,
+            endDate: this.endDate || undefined
+        };
+    }
+
+    private invalidatePreview() {
+        this.preview = null;
+        this.scheduleButton?.setDisabled(true);
+        this.previewEl?.empty();
+    }
+
+    private async loadPreview() {
+        this.invalidatePreview();
+
+        const options = this.getOptions();
+        if (!options) {
+            this.previewEl.createEl('p', { text: 'Choose a pacing guide and a class first.' });
+            return;
+        }
+
+        const validation = this.parserService.validateDate(options.startDate);
+        if (!validation.valid) {
+            this.previewEl.createEl('p', { text: `❌ ${validation.errors.join(', ')}` });
+            return;
+        }
+
+        this.previewEl.createEl('p', { text: 'Calculating meetings...' });
+        const preview = await this.unitAssignmentService.scheduleUnitSequence({ ...options, dryRun: true });
+        this.previewEl.empty();
+
+        if (!preview.success || !preview.units || !preview.changeSet) {
+            this.previewEl.createEl('p', { text: `❌ ${preview.error}` });
+            return;
+        }
+
+        this.preview = preview;
+        this.previewEl.createEl('p', { text: preview.message || '' });
+
+        const table = this.previewEl.createEl('table', { cls: 'lesson-planner-preview-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        for (const heading of ['Unit', 'Days', 'Dates', 'Notes']) {
+            headerRow.createEl('th', { text: heading });
+        }
+
+        const body = table.createEl('tbody');
+        for (const unit of preview.units) {
+            const conflicts = unit.entries.filter(entry => entry.conflict).length;
+            const warnings = unit.entries.filter(entry => entry.hasScheduleWarning).length;
+            const duplicates = unit.entries.filter(entry => entry.duplicate).length;
+
+            const notes: string[] = [];
+            if (unit.overflowLessons > 0) notes.push(`⚠️ ${unit.overflowLessons} lessons don't fit before the school year ends`);
+            notes.push(...unit.unitWarnings.map(warning => `⚠️ ${warning}`));
+            if (unit.daysPastEnd > 0) notes.push(`⚠️ ${unit.daysPastEnd} days after ${options.endDate}`);
+            for (const entry of unit.entries.filter(entry => entry.termChange)) {
+                notes.push(`Crosses into ${entry.termChange} on ${entry.date}`);
+            }
+            if (conflicts > 0) notes.push(`${conflicts} time conflicts`);
+            if (warnings > 0) notes.push(`${warnings} schedule warnings`);
+            if (duplicates > 0) notes.push(`${duplicates} already scheduled`);
+
+            const row = body.createEl('tr');
+            if (unit.overflowLessons > 0 || unit.daysPastEnd > 0 || conflicts > 0) {
+                row.addClass('lesson-planner-warning');
+            }
+            row.createEl('td', { text: unit.unitName });
+            row.createEl('td', { text: String(unit.totalDays) });
+            row.createEl('td', { text: unit.entries.length > 0 ? `${unit.firstDate} → ${unit.lastDate}` : '—' });
+            row.createEl('td', { text: notes.join('; ') });
+        }
+
+        renderFileChanges(this.previewEl, preview.changeSet.files);
+        this.scheduleButton.setDisabled(false);
+    }
+}
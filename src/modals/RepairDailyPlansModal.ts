@@ -0,0 +1,132 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import { ConsistencyService, RepairOptions, RepairResult } from '../services/ConsistencyService';
+import { ParserService } from '../services/ParserService';
+import { renderFileChanges } from './renderFileChanges';
+
+/**
+ * Pick one daily plan or a date range, preview the structural repairs as diffs, then apply them
+ */
+export class RepairDailyPlansModal extends Modal {
+    private consistencyService: ConsistencyService;
+    private parserService: ParserService;
+    private onConfirm: (options: RepairOptions) => Promise<void>;
+
+    private startDate: string;
+    private endDate: string;
+    private preview: RepairResult | null = null;
+
+    private previewEl: HTMLElement;
+    private repairButton: ButtonComponent;
+
+    constructor(
+        app: App,
+        consistencyService: ConsistencyService,
+        parserService: ParserService,
+        date: string,
+        onConfirm: (options: RepairOptions) => Promise<void>
+    ) {
+        super(app);
+        this.consistencyService = consistencyService;
+        this.parserService = parserService;
+        this.onConfirm = onConfirm;
+        this.startDate = date;
+        this.endDate = date;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('lesson-planner-modal');
+
+        contentEl.createEl('h2', { text: 'Repair Daily Plans' });
+        contentEl.createEl('p', {
+            cls: 'lesson-planner-muted',
+            text: 'Sorts class sections by time, fixes "---" dividers, and rebuilds the classes list and day_of_week. Notes inside each class are kept.'
+        });
+
+        new Setting(contentEl)
+            .setName('Start date')
+            .setDesc('First daily plan to repair (YYYY-MM-DD)')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.startDate)
+                .onChange(value => {
+                    this.startDate = value.trim();
+                    this.invalidatePreview();
+                }));
+
+        new Setting(contentEl)
+            .setName('End date')
+            .setDesc('Same as the start date to repair a single note')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.endDate)
+                .onChange(value => {
+                    this.endDate = value.trim();
+                    this.invalidatePreview();
+                }));
+
+        new Setting(contentEl)
+            .addButton(button => button
+                .setButtonText('Preview')
+                .onClick(async () => {
+                    await this.loadPreview();
+                }))
+            .addButton(button => {
+                this.repairButton = button;
+                button
+                    .setButtonText('Repair')
+                    .setCta()
+                    .setDisabled(true)
+                    .onClick(async () => {
+                        if (!this.preview?.success) return;
+
+                        button.setDisabled(true);
+                        this.close();
+                        await this.onConfirm(this.getOptions());
+                    });
+            });
+
+        this.previewEl = contentEl.createDiv({ cls: 'lesson-planner-preview' });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private getOptions(): RepairOptions {
+        return { startDate: this.startDate, endDate: this.endDate };
+    }
+
+    private invalidatePreview() {
+        this.preview = null;
+        this.repairButton?.setDisabled(true);
+        this.previewEl?.empty();
+    }
+
+    private async loadPreview() {
+        this.invalidatePreview();
+
+        const errors = [
+            ...this.parserService.validateDate(this.startDate).errors,
+            ...this.parserService.validateDate(this.endDate).errors
+        ];
+        if (errors.length > 0) {
+            this.previewEl.createEl('p', { text: `❌ ${errors.join(', ')}` });
+            return;
+        }
+
+        const preview = await this.consistencyService.repairDailyPlans({ ...this.getOptions(), dryRun: true });
+        if (!preview.success || !preview.files) {
+            this.previewEl.createEl('p', { text: `❌ ${preview.error}` });
+            return;
+        }
+
+        this.previewEl.createEl('p', { text: preview.message || '' });
+        if (preview.files.length === 0) return;
+
+        this.preview = preview;
+        renderFileChanges(this.previewEl, preview.files);
+        this.repairButton.setDisabled(false);
+    }
+}
@@ -0,0 +1,93 @@
+import { App, Setting } from 'obsidian';
+import { ParserService } from '../services/ParserService';
+import {
+    UnitRescheduleOptions,
+    UnitRescheduleResult,
+    UnitAssignmentService
+} from '../services/UnitAssignmentService';
+import { getTodayString, getWeekdayName } from '../utils/dateUtils';
+import { AssignedUnitModal, ClassUnits } from './AssignedUnitModal';
+
+/**
+ * Pick a class, one of its units and a new start date, preview where each day lands, then move them
+ */
+export class RescheduleUnitModal extends AssignedUnitModal<UnitRescheduleOptions, UnitRescheduleResult> {
+    private unitAssignmentService: UnitAssignmentService;
+    private parserService: ParserService;
+
+    private startDate = getTodayString();
+
+    constructor(
+        app: App,
+        unitAssignmentService: UnitAssignmentService,
+        parserService: ParserService,
+        classes: ClassUnits[],
+        unitNames: string[],
+        onConfirm: (options: UnitRescheduleOptions) => Promise<void>
+    ) {
+        super(app, classes, unitNames, onConfirm);
+        this.unitAssignmentService = unitAssignmentService;
+        this.parserService = parserService;
+    }
+
+    protected getTitle(): string {
+        return 'Move Unit to New Start Date';
+    }
+
+    protected getConfirmText(): string {
+        return 'Move';
+    }
+
+    protected addFields(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName('New start date')
+            .setDesc('Day 1 goes on the first meeting on or after this date (YYYY-MM-DD)')
+            .addText(text => text
+                .setPlaceholder('YYYY-MM-DD')
+                .setValue(this.startDate)
+                .onChange(value => {
+                    this.startDate = value.trim();
+                    this.invalidatePreview();
+                }));
+    }
+
+    protected checkFields(): string | null {
+        if (!this.className || !this.unitName) {
+            return 'Choose a class and a unit first.';
+        }
+
+        const validation = this.parserService.validateDate(this.startDate);
+        return validation.valid ? null : `❌ ${validation.errors.join(', ')}`;
+    }
+
+    protected getOptions(): UnitRescheduleOptions {
+        return {
+            unitName: this.unitName,
+            className: this.className,
+            startDate: this.startDate
+        };
+    }
+
+    protected runPreview(options: UnitRescheduleOptions): Promise<UnitRescheduleResult> {
+        return this.unitAssignmentService.rescheduleUnit({ ...options, dryRun: true });
+    }
+
+    protected renderPreviewDetails(previewEl: HTMLElement, preview: UnitRescheduleResult) {
+        if (!preview.moves) return;
+
+        const table = previewEl.createEl('table', { cls: 'lesson-planner-preview-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        for (const heading of ['Day', 'From', 'To', 'Weekday']) {
+            headerRow.createEl('th', { text: heading });
+        }
+
+        const body = table.createEl('tbody');
+        for (const move of preview.moves) {
+            const row = body.createEl('tr', { cls: move.from === move.to ? 'lesson-planner-muted' : '' });
+            row.createEl('td', { text: String(move.dayNumber) });
+            row.createEl('td', { text: move.from || 'New from template' });
+            row.createEl('td', { text: move.to });
+            row.createEl('td', { text: getWeekdayName(move.to) });
+        }
+    }
+}
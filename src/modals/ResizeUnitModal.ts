@@ -0,0 +1,109 @@
+import { App, Notice, Setting, TextComponent } from 'obsidian';
+import {
+    UnitResizeOptions,
+    UnitResizeResult,
+    UnitAssignmentService
+} from '../services/UnitAssignmentService';
+import { AssignedUnitModal, ClassUnits } from './AssignedUnitModal';
+
+/**
+ * Pick a class and one of its units, set a new number of days, preview the entries that are
+ * added, removed and renumbered, then apply them
+ */
+export class ResizeUnitModal extends AssignedUnitModal<UnitResizeOptions, UnitResizeResult> {
+    private unitAssignmentService: UnitAssignmentService;
+    private units: { name: string; duration: number }[];
+
+    private totalDays = '';
+    private totalDaysEdited = false; // typed by the user since the unit last changed
+    private updateUnitDuration = true;
+
+    private daysInput: TextComponent;
+
+    constructor(
+        app: App,
+        unitAssignmentService: UnitAssignmentService,
+        classes: ClassUnits[],
+        units: { name: string; duration: number }[],
+        onConfirm: (options: UnitResizeOptions) => Promise<void>
+    ) {
+        super(app, classes, units.map(unit => unit.name), onConfirm);
+        this.unitAssignmentService = unitAssignmentService;
+        this.units = units;
+    }
+
+    protected getTitle(): string {
+        return 'Resize Assigned Unit';
+    }
+
+    protected getConfirmText(): string {
+        return 'Resize';
+    }
+
+    protected addFields(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName('New length')
+            .setDesc('Number of days the class spends on the unit')
+            .addText(text => {
+                this.daysInput = text;
+                text.setPlaceholder('e.g. 12').onChange(value => {
+                    this.totalDays = value.trim();
+                    this.totalDaysEdited = true;
+                    this.invalidatePreview();
+                });
+            });
+
+        new Setting(containerEl)
+            .setName('Update duration_days')
+            .setDesc('Also change the length in the unit note, for classes that get the unit later')
+            .addToggle(toggle => toggle
+                .setValue(this.updateUnitDuration)
+                .onChange(value => {
+                    this.updateUnitDuration = value;
+                    this.invalidatePreview();
+                }));
+    }
+
+    protected onUnitChanged() {
+        const { unitName } = this;
+        this.totalDaysEdited = false;
+        this.fillDuration().catch(error => {
+            console.error('Resize unit error:', error);
+            new Notice(`❌ Could not read the current length of ${unitName}: ${error.message}`, 5000);
+        });
+    }
+
+    /**
+     * Start from the length the class has now, or the unit's duration_days when it isn't assigned yet.
+     * The lookup scans every daily plan, so a length typed meanwhile or a newer selection wins.
+     */
+    private async fillDuration() {
+        const { className, unitName } = this;
+        const assigned = await this.unitAssignmentService.getAssignedLength(className, unitName);
+        if (className !== this.className || unitName !== this.unitName || this.totalDaysEdited) return;
+
+        const unit = this.units.find(candidate => candidate.name === unitName);
+        const days = assigned > 0 ? assigned : unit?.duration || 0;
+        this.totalDays = days > 0 ? String(days) : '';
+        this.daysInput?.setValue(this.totalDays);
+    }
+
+    protected checkFields(): string | null {
+        return this.className && this.unitName && this.totalDays
+            ? null
+            : 'Choose a class, a unit and the new length first.';
+    }
+
+    protected getOptions(): UnitResizeOptions {
+        return {
+            unitName: this.unitName,
+            className: this.className,
+            totalDays: Number(this.totalDays),
+            updateUnitDuration: this.updateUnitDuration
+        };
+    }
+
+    protected runPreview(options: UnitResizeOptions): Promise<UnitResizeResult> {
+        return this.unitAssignmentService.resizeUnitAssignment({ ...options, dryRun: true });
+    }
+}
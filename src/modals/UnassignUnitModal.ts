@@ -0,0 +1,62 @@
+import { App, Setting } from 'obsidian';
+import {
+    UnitUnassignmentOptions,
+    UnitUnassignmentResult,
+    UnitAssignmentService
+} from '../services/UnitAssignmentService';
+import { AssignedUnitModal, ClassUnits } from './AssignedUnitModal';
+
+/**
+ * Pick a class and one of its units, preview the cleanup, then remove the unit's entries
+ */
+export class UnassignUnitModal extends AssignedUnitModal<UnitUnassignmentOptions, UnitUnassignmentResult> {
+    private unitAssignmentService: UnitAssignmentService;
+    private deleteEmptyPlans = false;
+
+    constructor(
+        app: App,
+        unitAssignmentService: UnitAssignmentService,
+        classes: ClassUnits[],
+        unitNames: string[],
+        onConfirm: (options: UnitUnassignmentOptions) => Promise<void>
+    ) {
+        super(app, classes, unitNames, onConfirm);
+        this.unitAssignmentService = unitAssignmentService;
+    }
+
+    protected getTitle(): string {
+        return 'Unassign Unit from Class';
+    }
+
+    protected getConfirmText(): string {
+        return 'Unassign';
+    }
+
+    protected isDestructive(): boolean {
+        return true;
+    }
+
+    protected addFields(containerEl: HTMLElement) {
+        new Setting(containerEl)
+            .setName('Delete empty daily plans')
+            .setDesc('Remove daily plan notes that have no classes left afterwards')
+            .addToggle(toggle => toggle
+                .setValue(this.deleteEmptyPlans)
+                .onChange(value => {
+                    this.deleteEmptyPlans = value;
+                    this.invalidatePreview();
+                }));
+    }
+
+    protected getOptions(): UnitUnassignmentOptions {
+        return {
+            unitName: this.unitName,
+            className: this.className,
+            deleteEmptyPlans: this.deleteEmptyPlans
+        };
+    }
+
+    protected runPreview(options: UnitUnassignmentOptions): Promise<UnitUnassignmentResult> {
+        return this.unitAssignmentService.unassignUnitFromClass({ ...options, dryRun: true });
+    }
+}
@@ -0,0 +1,22 @@
+import { PlannedFileChange } from '../types';
+import { formatDiff } from '../utils/diff';
+
+const ACTION_LABELS = {
+    create: 'Create',
+    modify: 'Modify',
+    delete: 'Delete'
+};
+
+/**
+ * Collapsible list of planned file changes with a diff for each file
+ */
+export function renderFileChanges(containerEl: HTMLElement, files: PlannedFileChange[]): void {
+    const filesEl = containerEl.createEl('details');
+    filesEl.createEl('summary', { text: `${files.length} files will be changed` });
+
+    for (const file of files) {
+        const fileEl = filesEl.createEl('details', { cls: 'lesson-planner-file-diff' });
+        fileEl.createEl('summary', { text: `${ACTION_LABELS[file.action]} ${file.path}` });
+        fileEl.createEl('pre', { text: formatDiff(file.diff) });
+    }
+}
@@ -0,0 +1,291 @@
+import { Notice } from 'obsidian';
+import { FileService } from './FileService';
+import { ParserService } from './ParserService';
+import { ScheduleService } from './ScheduleService';
+import { TemplateService } from './TemplateService';
+import { BatchOperationResult, CascadeSession, ClassSchedule, MeetingPattern, Movement } from '../types';
+
+export class BumpService {
+    private fileService: FileService;
+    private parserService: ParserService;
+    private scheduleService: ScheduleService;
+    private templateService: TemplateService;
+
+    constructor(
+        fileService: FileService,
+        parserService: ParserService,
+        scheduleService: ScheduleService,
+        templateService: TemplateService
+    ) {
+        this.fileService = fileService;
+        this.parserService = parserService;
+        this.scheduleService = scheduleService;
+        this.templateService = templateService;
+    }
+
+    /**
+     * Move every entry for a class on or after fromDate to the class's next meeting.
+     * All daily plans are edited in memory first and written once the cascade is complete.
+     */
+    async bumpClass(className: string, fromDate: string): Promise<BatchOperationResult> {
+        try {
+            if (!this.parserService.isValidDate(fromDate)) {
+                return { success: false, error: 'Invalid date format. Use YYYY-MM-DD' };
+            }
+
+            const classSchedule = await this.scheduleService.getClassSchedule(className);
+            if (!classSchedule) {
+                return { success: false, error: `Class "${className}" not found` };
+            }
+            if (classSchedule.daysOfWeek.length === 0 && classSchedule.cycleDays.length === 0) {
+                return { success: false, error: `Class "${className}" missing day_of_week or cycle_days in frontmatter` };
+            }
+
+            const sessions = new Map<string, CascadeSession>();
+            const cascade = await this.cascadeClass(className, classSchedule, fromDate, sessions);
+
+            if (cascade.overflowLessons > 0) {
+                return {
+                    success: false,
+                    overflowLessons: cascade.overflowLessons,
+                    error: await this.describeOverflow([className])
+                };
+            }
+            if (cascade.movements.length === 0) {
+                return { success: false, error: `No entries for ${className} on or after ${fromDate}` };
+            }
+
+            await this.saveSessions(sessions);
+
+            return {
+                success: true,
+                movements: cascade.movements,
+                scheduleWarnings: cascade.scheduleWarnings
+            };
+        } catch (error) {
+            console.error('Bump class error:', error);
+            return { success: false, error: error.message };
+        }
+    }
+
+    /**
+     * Push every class on a cancelled day to its next meeting, cascading each class's later entries.
+     * The day's note is kept and marked as cancelled rather than deleted.
+     */
+    async bumpDay(date: string): Promise<BatchOperationResult> {
+        try {
+            if (!this.parserService.isValidDate(date)) {
+                return { success: false, error: 'Invalid date format. Use YYYY-MM-DD' };
+            }
+
+            const dailyPlanPath = this.fileService.getFullPath(`Daily Plans/${date}.md`);
+            if (!this.fileService.getFile(dailyPlanPath)) {
+                return { success: false, error: `No daily plan found for ${date}` };
+            }
+
+            const sessions = new Map<string, CascadeSession>();
+            const daySession = await this.getSession(date, sessions);
+            const classNames = this.parserService.extractClassBlocks(daySession.content).map(block => block.className);
+
+            if (classNames.length === 0) {
+                return { success: false, error: `No classes scheduled on ${date}` };
+            }
+
+            // Resolve every schedule up front so a missing class file aborts before anything moves
+            const schedules: ClassSchedule[] = [];
+            for (const className of classNames) {
+                const classSchedule = await this.scheduleService.getClassSchedule(className);
+                if (!classSchedule || (classSchedule.daysOfWeek.length === 0 && classSchedule.cycleDays.length === 0)) {
+                    return { success: false, error: `Class "${className}" not found or missing day_of_week/cycle_days` };
+                }
+                schedules.push(classSchedule);
+            }
+
+            const movements: Movement[] = [];
+            const overflowingClasses: string[] = [];
+            let scheduleWarnings = 0;
+
+            for (const classSchedule of schedules) {
+                const cascade = await this.cascadeClass(classSchedule.name, classSchedule, date, sessions);
+                movements.push(...cascade.movements);
+                scheduleWarnings += cascade.scheduleWarnings;
+                if (cascade.overflowLessons > 0) overflowingClasses.push(classSchedule.name);
+            }
+
+            // Nothing has been written yet, so refusing here leaves every daily plan as it was
+            if (overflowingClasses.length > 0) {
+                return {
+                    success: false,
+                    overflowLessons: overflowingClasses.length,
+                    error: await this.describeOverflow(overflowingClasses)
+                };
+            }
+
+            daySession.content = this.parserService.markDailyPlanCancelled(daySession.content);
+            daySession.modified = true;
+
+            await this.saveSessions(sessions);
+
+            return {
+                success: true,
+                movements: this.groupMovements(movements),
+                scheduleWarnings
+            };
+        } catch (error) {
+            console.error('Bump day error:', error);
+            return { success: false, error: error.message };
+        }
+    }
+
+    // e.g. "Bumping would push 2 lessons past the last day of school (2026-06-12): Biology, Chemistry"
+    private async describeOverflow(classNames: string[]): Promise<string> {
+        const schoolYear = await this.scheduleService.getSchoolYear();
+        const lessons = classNames.length === 1 ? '1 lesson' : `${classNames.length} lessons`;
+        return `Bumping would push ${lessons} past the last day of school (${schoolYear?.lastDay}): ${classNames.join(', ')}`;
+    }
+
+    // Collapse per-class movements into one movement per date pair
+    private groupMovements(movements: Movement[]): Movement[] {
+        const grouped = new Map<string, Movement>();
+
+        for (const movement of movements) {
+            const key = `${movement.from}→${movement.to}`;
+            const existing = grouped.get(key);
+            if (existing) {
+                existing.classCount = (existing.classCount || 0) + (movement.classCount || 1);
+            } else {
+                grouped.set(key, { ...movement, classCount: movement.classCount || 1 });
+            }
+        }
+
+        return Array.from(grouped.values()).sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+    }
+
+    private async cascadeClass(
+        className: string,
+        meeting: MeetingPattern,
+        fromDate: string,
+        sessions: Map<string, CascadeSession>
+    ): Promise<{ movements: Movement[]; scheduleWarnings: number; overflowLessons: number }> {
+        const plans = await this.fileService.getDailyPlans(fromDate);
+        const entryDates: string[] = [];
+
+        for (const plan of plans) {
+            const session = await this.getSession(plan.basename, sessions);
+            if (this.parserService.findClassBlock(session.content, className)) {
+                entryDates.push(session.date);
+            }
+        }
+
+        const movements: Movement[] = [];
+        let scheduleWarnings = 0;
+        entryDates.sort();
+
+        // Only the last entry moves into a meeting nobody has used yet; without one the cascade can't happen
+        if (entryDates.length > 0 &&
+            !await this.scheduleService.findNextSchoolDay(entryDates[entryDates.length - 1], meeting)) {
+            return { movements, scheduleWarnings, overflowLessons: 1 };
+        }
+
+        const schoolYear = await this.scheduleService.getSchoolYear();
+
+        // Work backwards so each entry moves into a meeting its successor has already vacated
+        for (const date of entryDates.reverse()) {
+            const targetDate = await this.scheduleService.getNextSchoolDay(date, meeting);
+            const needsReview = await this.moveClassEntry(className, date, targetDate, sessions);
+
+            const skippedHolidays = await this.scheduleService.getHolidaysBetween(date, targetDate);
+            const fromTerm = this.scheduleService.findTerm(date, schoolYear);
+            const toTerm = this.scheduleService.findTerm(targetDate, schoolYear);
+            const termChange = fromTerm && toTerm && fromTerm.name !== toTerm.name ? toTerm.name : undefined;
+
+            movements.unshift({ from: date, to: targetDate, classCount: 1, skippedHolidays, termChange });
+            if (needsReview) scheduleWarnings++;
+        }
+
+        return { movements, scheduleWarnings, overflowLessons: 0 };
+    }
+
+    // Returns true when the entry landed on a special schedule that needs a manual time check
+    private async moveClassEntry(
+        className: string,
+        fromDate: string,
+        toDate: string,
+        sessions: Map<string, CascadeSession>
+    ): Promise<boolean> {
+        const source = await this.getSession(fromDate, sessions);
+        const block = this.parserService.findClassBlock(source.content, className);
+        if (!block) {
+            throw new Error(`No entry for ${className} found on ${fromDate}`);
+        }
+
+        source.content = this.parserService.removeClassBlock(source.content, className);
+        source.content = this.parserService.updateClassesList(source.content, className, 'remove');
+        source.modified = true;
+
+        // Re-resolve the time, since the new date may have a different schedule type
+        const scheduleType = await this.scheduleService.getScheduleType(toDate);
+        const timeInfo = await this.scheduleService.getTimeForScheduleType(className, scheduleType, toDate);
+        const classEntry = this.parserService.buildClassEntry(timeInfo.time, className, timeInfo.note, block.body);
+
+        const target = await this.getSession(toDate, sessions);
+        const classNames = this.parserService.extractClassBlocks(target.content).map(existing => existing.className);
+        const durations = await this.scheduleService.getClassDurations([...classNames, className], toDate);
+        const insertResult = this.parserService.insertClassByTimeFixed(target.content, classEntry, timeInfo.time, className, durations);
+
+        for (const overlap of insertResult.overlaps) {
+            const message = `Time conflict on ${toDate}: ${this.parserService.describeOverlap(overlap)}`;
+            console.warn(message);
+            new Notice(`Warning: ${message}`);
+        }
+
+        target.content = this.parserService.updateClassesList(insertResult.content, className, 'add');
+        target.modified = true;
+
+        // Keep the recorded rotation day in step with the calendar
+        const cycleDay = await this.scheduleService.getCycleDay(toDate);
+        if (cycleDay) {
+            target.content = this.parserService.setFrontmatterValue(target.content, 'cycle_day', cycleDay);
+        }
+
+        return timeInfo.needsReview;
+    }
+
+    private async getSession(date: string, sessions: Map<string, CascadeSession>): Promise<CascadeSession> {
+        const existing = sessions.get(date);
+        if (existing) {
+            return existing;
+        }
+
+        const path = this.fileService.getFullPath(`Daily Plans/${date}.md`);
+        const file = this.fileService.getFile(path);
+        const content = file ? await this.fileService.readFile(path, false) : null;
+
+        const session: CascadeSession = {
+            date,
+            file,
+            content: content ?? await this.templateService.buildDailyPlan(date, await this.scheduleService.getCycleDay(date)),
+            modified: false
+        };
+        sessions.set(date, session);
+        return session;
+    }
+
+    private async saveSessions(sessions: Map<string, CascadeSession>): Promise<void> {
+        const dates = Array.from(sessions.keys()).sort();
+
+        for (const date of dates) {
+            const session = sessions.get(date);
+            if (!session || !session.modified) continue;
+
+            const path = this.fileService.getFullPath(`Daily Plans/${date}.md`);
+            const saved = session.file
+                ? await this.fileService.writeFile(path, session.content)
+                : await this.fileService.createFile(path, session.content);
+
+            if (!saved) {
+                throw new Error(`Could not save daily plan for ${date}`);
+            }
+        }
+    }
+}
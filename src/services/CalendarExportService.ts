@@ -0,0 +1,152 @@
+import { FileService } from './FileService';
+import { ParserService } from './ParserService';
+import { ScheduleService } from './ScheduleService';
+import { buildCalendar, CalendarEvent, toUidPart } from '../utils/ics';
+import { parseDateString } from '../utils/dateUtils';
+
+export interface CalendarExportOptions {
+    // Path of the .ics file, relative to the lesson planning root
+    outputPath: string;
+    className?: string;
+    unitName?: string;
+    startDate?: string;
+    endDate?: string;
+}
+
+export interface CalendarExportResult {
+    success: boolean;
+    message?: string;
+    error?: string;
+    path?: string;
+    eventCount?: number;
+    // Entries whose class has no duration, exported with DEFAULT_EVENT_MINUTES
+    defaultedDurations?: number;
+}
+
+// Length of an event for classes without duration_minutes
+const DEFAULT_EVENT_MINUTES = 60;
+
+export class CalendarExportService {
+    private fileService: FileService;
+    private parserService: ParserService;
+    private scheduleService: ScheduleService;
+
+    constructor(
+        fileService: FileService,
+        parserService: ParserService,
+        scheduleService: ScheduleService
+    ) {
+        this.fileService = fileService;
+        this.parserService = parserService;
+        this.scheduleService = scheduleService;
+    }
+
+    /**
+     * Write the class entries in the daily plans to an .ics file, optionally limited to one class,
+     * one unit and/or a date range. Event UIDs follow the lesson (class, unit and day number)
+     * rather than the date, so re-importing after a bump moves the event instead of duplicating it.
+     */
+    async exportCalendar(options: CalendarExportOptions): Promise<CalendarExportResult> {
+        try {
+            if (!/\.ics$/i.test(options.outputPath)) {
+                return { success: false, error: 'Export file name must end in .ics' };
+            }
+            for (const date of [options.startDate, options.endDate]) {
+                if (date && !this.parserService.isValidDate(date)) {
+                    return { success: false, error: `Invalid date "${date}". Use YYYY-MM-DD` };
+                }
+            }
+            if (options.startDate && options.endDate && options.endDate < options.startDate) {
+                return { success: false, error: `End date ${options.endDate} is before start date ${options.startDate}` };
+            }
+
+            const events: CalendarEvent[] = [];
+            const usedUids = new Set<string>();
+            let defaultedDurations = 0;
+
+            const dailyPlans = await this.fileService.getDailyPlans(options.startDate, options.endDate);
+            for (const planFile of dailyPlans) {
+                const content = await this.fileService.readFile(planFile.path);
+                if (content === null) continue;
+
+                const plan = this.parserService.parseDailyPlan(content, planFile.path);
+                if (!plan || plan.cancelled) continue;
+
+                const entries = this.parserService.extractClassEntries(content).filter(entry =>
+                    (!options.className || entry.className === options.className) &&
+                    (!options.unitName || this.getUnitName(entry.unit) === options.unitName));
+                if (entries.length === 0) continue;
+
+                const durations = await this.scheduleService.getClassDurations(entries.map(entry => entry.className), plan.date);
+
+                for (const entry of entries) {
+                    const time = this.parserService.parseTime(entry.time);
+                    if (!time) {
+                        console.warn(`Skipping ${entry.className} on ${plan.date}: "${entry.time}" is not a valid time`);
+                        continue;
+                    }
+
+                    const start = parseDateString(plan.date);
+                    start.setHours(time.hours, time.minutes);
+                    const minutes = durations[entry.className];
+                    if (!minutes) defaultedDurations++;
+                    const end = new Date(start.getTime() + (minutes || DEFAULT_EVENT_MINUTES) * 60000);
+
+                    const unitName = this.getUnitName(entry.unit);
+                    const summary = unitName && entry.dayNumber > 0
+                        ? `${entry.className} – ${unitName} Day ${entry.dayNumber}/${entry.totalDays}`
+                        : entry.className;
+
+                    events.push({
+                        uid: this.getUid(entry.className, unitName, entry.dayNumber, plan.date, usedUids),
+                        start,
+                        end,
+                        summary,
+                        description: entry.scheduleNote || undefined
+                    });
+                }
+            }
+
+            if (events.length === 0) {
+                return { success: false, error: 'No class entries match the export filters' };
+            }
+
+            const path = this.fileService.getFullPath(options.outputPath);
+            const folder = path.split('/').slice(0, -1).join('/');
+            if (folder) {
+                await this.fileService.ensureFolder(folder);
+            }
+
+            const calendarName = options.className || options.unitName || 'Teaching Schedule';
+            if (!await this.fileService.writeFile(path, buildCalendar(events, calendarName))) {
+                return { success: false, error: `Could not save ${path}` };
+            }
+
+            const message = `Exported ${events.length} classes to ${path}` +
+                (defaultedDurations > 0 ? ` (${defaultedDurations} without a class duration use ${DEFAULT_EVENT_MINUTES} minutes)` : '');
+            return { success: true, message, path, eventCount: events.length, defaultedDurations };
+        } catch (error) {
+            console.error('Calendar export error:', error);
+            return { success: false, error: error.message };
+        }
+    }
+
+    // Entries for the same lesson keep their UID when bumped to another day.
+    // Entries without a unit, or a lesson that appears twice, fall back to the date.
+    private getUid(className: string, unitName: string, dayNumber: number, date: string, usedUids: Set<string>): string {
+        let key = unitName && dayNumber > 0
+            ? `${toUidPart(className)}-${toUidPart(unitName)}-day-${dayNumber}`
+            : `${toUidPart(className)}-${date}`;
+        if (usedUids.has(key)) {
+            key = `${key}-${date}`;
+        }
+        usedUids.add(key);
+        return `${key}@lesson-planner`;
+    }
+
+    // [[Folder/Unit#Day 3|Alias]] -> "Unit"
+    private getUnitName(link: string): string {
+        const target = link.split('|')[0].split('#')[0].trim();
+        return target.split('/').pop() || '';
+    }
+}
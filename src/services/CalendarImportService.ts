@@ -0,0 +1,334 @@
+import { FileService } from './FileService';
+import { ParserService } from './ParserService';
+import { ScheduleService } from './ScheduleService';
+import { PlannedFileChange } from '../types';
+import { ImportedCalendarEvent, parseCalendar } from '../utils/ics';
+import { addDays, parseDateString } from '../utils/dateUtils';
+import { diffLines } from '../utils/diff';
+
+// "keyword => target": events whose summary contains the keyword go to School Holidays.md when the
+// target is "holiday", otherwise to the Special Schedules.md section with that name
+export interface CalendarImportRule {
+    keyword: string;
+    target: string;
+}
+
+export interface CalendarImportOptions {
+    icsPath: string; // vault path of the .ics file
+    rules: string; // one rule per line, as written in settings
+    dryRun?: boolean;
+}
+
+export interface CalendarImportChange {
+    action: 'add' | 'remove';
+    file: 'School Holidays.md' | 'Special Schedules.md';
+    section?: string; // special schedule name
+    line: string;
+}
+
+export interface CalendarImportResult {
+    success: boolean;
+    message?: string;
+    error?: string;
+    changes?: CalendarImportChange[];
+    unmatched?: string[]; // summaries of events no rule matched
+    dryRun?: boolean;
+    files?: PlannedFileChange[];
+}
+
+// Obsidian comment appended to every imported line, so a later import can tell its own lines from hand-written ones
+export const CALENDAR_IMPORT_MARKER = '%%ics%%';
+
+export const DEFAULT_CALENDAR_IMPORT_RULES = [
+    'no school => holiday',
+    'holiday => holiday',
+    'break => holiday',
+    'early dismissal => Early Dismissal',
+    'early release => Early Dismissal',
+    'testing => Testing Day'
+].join('\n');
+
+const HOLIDAYS_FILE = 'School Holidays.md';
+const SPECIAL_SCHEDULES_FILE = 'Special Schedules.md';
+
+export class CalendarImportService {
+    private fileService: FileService;
+    private parserService: ParserService;
+    private scheduleService: ScheduleService;
+
+    constructor(
+        fileService: FileService,
+        parserService: ParserService,
+        scheduleService: ScheduleService
+    ) {
+        this.fileService = fileService;
+        this.parserService = parserService;
+        this.scheduleService = scheduleService;
+    }
+
+    parseRules(text: string): { rules: CalendarImportRule[]; errors: string[] } {
+        const rules: CalendarImportRule[] = [];
+        const errors: string[] = [];
+
+        for (const line of text.split('\n')) {
+            const trimmed = line.trim();
+            if (!trimmed || trimmed.startsWith('#')) continue;
+
+            const match = trimmed.match(/^(.+?)\s*=>\s*(.+)$/);
+            if (!match) {
+                errors.push(`"${trimmed}" should look like "keyword => holiday" or "keyword => Schedule Name"`);
+            } else if (this.parserService.isRegularScheduleSlug(this.parserService.toScheduleSlug(match[2]))) {
+                errors.push(`"${trimmed}": the regular schedule can't be an import target`);
+            } else {
+                rules.push({ keyword: match[1].toLowerCase(), target: match[2].trim() });
+            }
+        }
+
+        return { rules, errors };
+    }
+
+    /**
+     * Map the events of an .ics file onto School Holidays.md and Special Schedules.md.
+     * Lines from earlier imports that the calendar no longer produces are removed; hand-written
+     * lines, and everything below each file's "---" separator, are left alone.
+     */
+    async importCalendar(options: CalendarImportOptions): Promise<CalendarImportResult> {
+        try {
+            const { rules, errors } = this.parseRules(options.rules);
+            if (errors.length > 0) {
+                return { success: false, error: `Invalid import rules: ${errors.join('; ')}` };
+            }
+            if (rules.length === 0) {
+                return { success: false, error: 'No import rules configured' };
+            }
+
+            const icsContent = await this.fileService.readFile(options.icsPath, false);
+            if (icsContent === null) {
+                return { success: false, error: `Calendar file ${options.icsPath} not found` };
+            }
+
+            const events = parseCalendar(icsContent);
+            if (events.length === 0) {
+                return { success: false, error: `No events found in ${options.icsPath}` };
+            }
+
+            // Lines each target should contain after the import, keyed by "holiday" or schedule slug
+            const holidayLines: string[] = [];
+            const scheduleLines = new Map<string, { name: string; lines: string[] }>();
+            const unmatched: string[] = [];
+
+            for (const event of events) {
+                const summary = event.summary.split('\n')[0];
+                const rule = rules.find(candidate => summary.toLowerCase().includes(candidate.keyword));
+                if (!rule) {
+                    unmatched.push(`${event.startDate} ${summary}`);
+                    continue;
+                }
+
+                if (rule.target.toLowerCase() === 'holiday') {
+                    const span = event.endDate > event.startDate ? `${event.startDate} to ${event.endDate}` : event.startDate;
+                    holidayLines.push(`- ${span} ${summary} ${CALENDAR_IMPORT_MARKER}`);
+                    continue;
+                }
+
+                const slug = this.parserService.toScheduleSlug(rule.target);
+                const target = scheduleLines.get(slug) || { name: rule.target, lines: [] };
+                for (const date of this.getWeekdays(event)) {
+                    target.lines.push(`- ${date} ${summary} ${CALENDAR_IMPORT_MARKER}`);
+                }
+                scheduleLines.set(slug, target);
+            }
+
+            const changes: CalendarImportChange[] = [];
+            const files: PlannedFileChange[] = [];
+
+            const holidaysPath = this.fileService.getFullPath(HOLIDAYS_FILE);
+            const holidaysBefore = await this.fileService.readFile(holidaysPath, false);
+            const holidaysAfter = this.mergeHolidays(holidaysBefore || '', holidayLines, changes);
+            if (holidaysAfter !== (holidaysBefore || '')) {
+                files.push(this.toFileChange(holidaysPath, holidaysBefore, holidaysAfter));
+            }
+
+            const schedulesPath = this.fileService.getFullPath(SPECIAL_SCHEDULES_FILE);
+            const schedulesBefore = await this.fileService.readFile(schedulesPath, false);
+            const schedulesAfter = this.mergeSpecialSchedules(schedulesBefore || '', scheduleLines, changes);
+            if (schedulesAfter !== (schedulesBefore || '')) {
+                files.push(this.toFileChange(schedulesPath, schedulesBefore, schedulesAfter));
+            }
+
+            if (!options.dryRun && files.length > 0) {
+                for (const change of files) {
+                    if (change.after === null || !await this.fileService.writeFile(change.path, change.after)) {
+                        throw new Error(`Could not save ${change.path}`);
+                    }
+                }
+                this.scheduleService.clearCache();
+            }
+
+            const added = changes.filter(change => change.action === 'add').length;
+            const removed = changes.length - added;
+            const message = `${options.dryRun ? 'Would add' : 'Added'} ${added} and ${options.dryRun ? 'remove' : 'removed'} ${removed} calendar entries` +
+                (unmatched.length > 0 ? `; ${unmatched.length} events matched no rule` : '');
+
+            return { success: true, message, changes, unmatched, dryRun: options.dryRun, files };
+        } catch (error) {
+            console.error('Calendar import error:', error);
+            return { success: false, error: error.message };
+        }
+    }
+
+    private mergeHolidays(content: string, wanted: string[], changes: CalendarImportChange[]): string {
+        const original = content === '' ? [] : content.split('\n');
+        const range = this.getEditableRange(original);
+        const lines = original.filter((line, index) => {
+            const stale = index >= range.start && index < range.end &&
+                line.includes(CALENDAR_IMPORT_MARKER) && !wanted.includes(line.trim());
+            if (stale) changes.push({ action: 'remove', file: HOLIDAYS_FILE, line: line.trim() });
+            return !stale;
+        });
+
+        for (const line of wanted) {
+            const { start, end } = this.getEditableRange(lines);
+            const region = lines.slice(start, end);
+            if (region.some(existing => existing.trim() === line)) continue;
+
+            // Skip events a hand-written line already covers
+            const handWritten = region.filter(existing => !existing.includes(CALENDAR_IMPORT_MARKER)).join('\n');
+            const covered = this.parserService.parseHolidayDates(handWritten);
+            const dates = this.parserService.parseHolidayDates(line);
+            if (dates.length === 0 || dates.every(date => covered.includes(date))) continue;
+
+            this.insertListLine(lines, start, end, line);
+            changes.push({ action: 'add', file: HOLIDAYS_FILE, line });
+        }
+
+        return lines.join('\n');
+    }
+
+    private mergeSpecialSchedules(
+        content: string,
+        wanted: Map<string, { name: string; lines: string[] }>,
+        changes: CalendarImportChange[]
+    ): string {
+        const original = content === '' ? [] : content.split('\n');
+
+        // Stale imported lines, section by section
+        const range = this.getEditableRange(original);
+        let slug = '';
+        const lines: string[] = [];
+        original.forEach((line, index) => {
+            const inRegion = index >= range.start && index < range.end;
+            const headingMatch = line.match(/^##\s+(.+)$/);
+            if (inRegion && headingMatch) {
+                slug = this.parserService.toScheduleSlug(headingMatch[1]);
+            }
+
+            const sectionLines = wanted.get(slug)?.lines || [];
+            if (inRegion && line.includes(CALENDAR_IMPORT_MARKER) && !sectionLines.includes(line.trim())) {
+                changes.push({ action: 'remove', file: SPECIAL_SCHEDULES_FILE, section: wanted.get(slug)?.name || slug, line: line.trim() });
+                return;
+            }
+            lines.push(line);
+        });
+
+        wanted.forEach((target, targetSlug) => {
+            for (const line of target.lines) {
+                const { start, end } = this.getEditableRange(lines);
+                let section = this.findSection(lines, start, end, targetSlug);
+                if (!section) {
+                    // New section at the end of the list area, above the separator
+                    let insertAt = end;
+                    while (insertAt > start && lines[insertAt - 1].trim() === '') insertAt--;
+                    const heading = insertAt > 0 ? ['', `## ${target.name}`] : [`## ${target.name}`];
+                    const trailing = insertAt < lines.length && lines[insertAt].trim() !== '' ? [''] : [];
+                    lines.splice(insertAt, 0, ...heading, ...trailing);
+                    section = { start: insertAt + heading.length, end: insertAt + heading.length };
+                }
+
+                const sectionLines = lines.slice(section.start, section.end);
+                if (sectionLines.some(existing => existing.trim() === line)) continue;
+
+                const date = line.slice(2, 12);
+                if (sectionLines.some(existing => existing.startsWith(`- ${date}`))) continue;
+
+                this.insertListLine(lines, section.start, section.end, line);
+                changes.push({ action: 'add', file: SPECIAL_SCHEDULES_FILE, section: target.name, line });
+            }
+        });
+
+        return lines.join('\n');
+    }
+
+    // Lines the import may edit: after any frontmatter and above the first "---" separator
+    private getEditableRange(lines: string[]): { start: number; end: number } {
+        let start = 0;
+        if (lines[0] === '---') {
+            const frontmatterEnd = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+            if (frontmatterEnd > 0) start = frontmatterEnd + 1;
+        }
+
+        const separator = lines.findIndex((line, index) => index >= start && line.trim() === '---');
+        return { start, end: separator === -1 ? lines.length : separator };
+    }
+
+    // Lines under the "## Name" heading for a schedule slug, up to the next heading
+    private findSection(lines: string[], start: number, end: number, slug: string): { start: number; end: number } | null {
+        const headingIndex = lines.findIndex((line, index) => {
+            const match = line.match(/^##\s+(.+)$/);
+            return index >= start && index < end && match !== null && this.parserService.toScheduleSlug(match[1]) === slug;
+        });
+        if (headingIndex === -1) return null;
+
+        let sectionEnd = headingIndex + 1;
+        while (sectionEnd < end && !/^#{1,2}\s/.test(lines[sectionEnd])) sectionEnd++;
+        return { start: headingIndex + 1, end: sectionEnd };
+    }
+
+    // Insert a "- YYYY-MM-DD ..." line in date order among the list lines between start and end
+    private insertListLine(lines: string[], start: number, end: number, line: string): void {
+        const date = line.slice(2, 12);
+        let lastListLine = -1;
+
+        for (let i = start; i < end; i++) {
+            const match = lines[i].match(/^- (\d{4}-\d{2}-\d{2})/);
+            if (!match) continue;
+            if (match[1] > date) {
+                lines.splice(i, 0, line);
+                return;
+            }
+            lastListLine = i;
+        }
+
+        if (lastListLine !== -1) {
+            lines.splice(lastListLine + 1, 0, line);
+            return;
+        }
+
+        // First list line: after the existing text, keeping a blank line before any separator
+        let insertAt = end;
+        while (insertAt > start && lines[insertAt - 1].trim() === '') insertAt--;
+        const before = insertAt > start && lines[insertAt - 1].trim() !== '' && !lines[insertAt - 1].startsWith('## ') ? [''] : [];
+        const after = insertAt < lines.length && lines[insertAt].trim() !== '' ? [''] : [];
+        lines.splice(insertAt, 0, ...before, line, ...after);
+    }
+
+    // Weekdays an event covers; special schedules list single dates
+    private getWeekdays(event: ImportedCalendarEvent): string[] {
+        const dates: string[] = [];
+        for (let date = event.startDate; date <= event.endDate; date = addDays(date, 1)) {
+            const day = parseDateString(date).getDay();
+            if (day >= 1 && day <= 5) dates.push(date);
+        }
+        return dates;
+    }
+
+    private toFileChange(path: string, before: string | null, after: string): PlannedFileChange {
+        return {
+            path,
+            action: before === null ? 'create' : 'modify',
+            before,
+            after,
+            diff: diffLines(before || '', after)
+        };
+    }
+}
@@ -0,0 +1,283 @@
+import { FileService } from './FileService';
+import { ParserService } from './ParserService';
+import { ScheduleService } from './ScheduleService';
+import { ClassEntry, ConsistencyIssue, ConsistencyReport, PlannedFileChange } from '../types';
+import { getWeekdayName } from '../utils/dateUtils';
+import { diffLines } from '../utils/diff';
+
+export interface RepairOptions {
+    // Inclusive date range of daily plans to repair; use the same date twice for a single note
+    startDate: string;
+    endDate: string;
+    dryRun?: boolean;
+}
+
+export interface RepairResult {
+    success: boolean;
+    message?: string;
+    error?: string;
+    checkedPlans?: number;
+    repairedPlans?: number;
+    dryRun?: boolean;
+    files?: PlannedFileChange[];
+}
+
+interface ScheduledDay {
+    date: string;
+    filePath: string;
+    dayNumber: number;
+    totalDays: number;
+}
+
+export class ConsistencyService {
+    private fileService: FileService;
+    private parserService: ParserService;
+    private scheduleService: ScheduleService;
+
+    constructor(
+        fileService: FileService,
+        parserService: ParserService,
+        scheduleService: ScheduleService
+    ) {
+        this.fileService = fileService;
+        this.parserService = parserService;
+        this.scheduleService = scheduleService;
+    }
+
+    /**
+     * Scan every daily plan for hand edits that no longer agree with the rest of the planner
+     */
+    async checkConsistency(): Promise<ConsistencyReport> {
+        const issues: ConsistencyIssue[] = [];
+        const dailyPlans = await this.fileService.getDailyPlans();
+        const unitFiles = await this.fileService.getUnits();
+        const unitNames = unitFiles.map(file => file.basename);
+        const dayHeadings = new Map<string, number[]>();
+        const classNames = (await this.fileService.getClasses()).map(file => file.basename);
+        const holidays = await this.scheduleService.getHolidays();
+
+        // "Day N of M" entries per class and unit, in date order since daily plans are sorted by name
+        const sequences = new Map<string, ScheduledDay[]>();
+
+        for (const planFile of dailyPlans) {
+            const content = await this.fileService.readFile(planFile.path, false);
+            if (content === null) continue;
+
+            const plan = this.parserService.parseDailyPlan(content, planFile.path);
+            if (!plan) continue;
+
+            const entries = this.parserService.extractClassEntries(content);
+            const issue = (type: ConsistencyIssue['type'], message: string, className?: string) => {
+                issues.push({ type, filePath: plan.filePath, date: plan.date, className, message });
+            };
+
+            this.checkClassesList(plan.classes, entries, issue);
+
+            const weekday = getWeekdayName(plan.date);
+            if (plan.dayOfWeek !== weekday) {
+                issue('day_of_week', `day_of_week is "${plan.dayOfWeek || '(missing)'}" but ${plan.date} is a ${weekday}`);
+            }
+
+            const holiday = holidays.find(entry => entry.date === plan.date);
+            if (holiday && entries.length > 0 && !plan.cancelled) {
+                const label = holiday.label ? ` (${holiday.label})` : '';
+                issue('holiday', `${entries.length} classes scheduled on a holiday${label}: ${entries.map(entry => entry.className).join(', ')}`);
+            }
+
+            for (const entry of entries) {
+                const unitName = this.getLinkTarget(entry.unit);
+
+                if (!classNames.includes(entry.className)) {
+                    issue('missing_link', `Class "${entry.className}" has no file in Classes`, entry.className);
+                } else {
+                    await this.checkEntryTime(plan.date, entry, message => issue('time_mismatch', message, entry.className));
+                }
+
+                if (unitName && !unitNames.includes(unitName)) {
+                    issue('missing_link', `Unit [[${entry.unit}]] has no file in Units`, entry.className);
+                } else if (unitName && entry.dayNumber > 0) {
+                    // The entry embeds ![[Unit#Day N]], which shows nothing without that heading
+                    let headings = dayHeadings.get(unitName);
+                    if (!headings) {
+                        const unitFile = unitFiles.find(file => file.basename === unitName);
+                        const unitContent = unitFile ? await this.fileService.readFile(unitFile.path, false) : null;
+                        headings = unitContent !== null ? this.parserService.findDayHeadings(unitContent) : [];
+                        dayHeadings.set(unitName, headings);
+                    }
+                    if (!headings.includes(entry.dayNumber)) {
+                        issue('missing_link', `[[${unitName}#Day ${entry.dayNumber}]] has no matching heading in the unit`, entry.className);
+                    }
+                }
+
+                if (unitName && entry.dayNumber > 0) {
+                    const key = `${entry.className}\u0000${unitName}`;
+                    const sequence = sequences.get(key) || [];
+                    sequence.push({
+                        date: plan.date,
+                        filePath: plan.filePath,
+                        dayNumber: entry.dayNumber,
+                        totalDays: entry.totalDays
+                    });
+                    sequences.set(key, sequence);
+                }
+            }
+        }
+
+        sequences.forEach((days, key) => {
+            const [className, unitName] = key.split('\u0000');
+            issues.push(...this.checkDaySequence(className, unitName, days));
+        });
+
+        return { checkedPlans: dailyPlans.length, issues, generatedAt: Date.now() };
+    }
+
+    /**
+     * Rebuild the structure of daily plans in a date range (sorted class sections, dividers,
+     * frontmatter classes and day_of_week). With dryRun set, only returns the planned changes.
+     */
+    async repairDailyPlans(options: RepairOptions): Promise<RepairResult> {
+        try {
+            const { startDate, endDate } = options;
+            if (endDate < startDate) {
+                return { success: false, error: `End date ${endDate} is before start date ${startDate}` };
+            }
+
+            const dailyPlans = await this.fileService.getDailyPlans(startDate, endDate);
+            if (dailyPlans.length === 0) {
+                const range = startDate === endDate ? startDate : `${startDate} to ${endDate}`;
+                return { success: false, error: `No daily plans found for ${range}` };
+            }
+
+            const files: PlannedFileChange[] = [];
+            for (const planFile of dailyPlans) {
+                const before = await this.fileService.readFile(planFile.path, false);
+                if (before === null) continue;
+
+                const after = this.parserService.rebuildDailyPlan(before, planFile.basename);
+
+                // Plans that only differ in blank lines are already well formed
+                const withoutBlankLines = (content: string) => content.split('\n').filter(line => line.trim() !== '').join('\n');
+                if (withoutBlankLines(before) === withoutBlankLines(after)) continue;
+
+                files.push({ path: planFile.path, action: 'modify', before, after, diff: diffLines(before, after) });
+            }
+
+            if (!options.dryRun) {
+                for (const change of files) {
+                    if (change.after === null || !await this.fileService.writeFile(change.path, change.after)) {
+                        throw new Error(`Could not save ${change.path}`);
+                    }
+                }
+            }
+
+            const message = files.length === 0
+                ? `All ${dailyPlans.length} daily plans are already well formed`
+                : `${options.dryRun ? 'Would repair' : 'Repaired'} ${files.length} of ${dailyPlans.length} daily plans`;
+
+            return {
+                success: true,
+                message,
+                checkedPlans: dailyPlans.length,
+                repairedPlans: files.length,
+                dryRun: options.dryRun,
+                files
+            };
+        } catch (error) {
+            console.error('Daily plan repair error:', error);
+            return { success: false, error: error.message };
+        }
+    }
+
+    // Frontmatter classes should name exactly the classes that have a heading in the note
+    private checkClassesList(
+        frontmatterClasses: string[],
+        entries: ClassEntry[],
+        issue: (type: ConsistencyIssue['type'], message: string, className?: string) => void
+    ) {
+        const headingClasses = entries.map(entry => entry.className);
+
+        for (const className of headingClasses) {
+            if (!frontmatterClasses.includes(className)) {
+                issue('classes_mismatch', `"${className}" has a heading but is missing from frontmatter classes`, className);
+            }
+        }
+        for (const className of frontmatterClasses) {
+            if (!headingClasses.includes(className)) {
+                issue('classes_mismatch', `"${className}" is listed in frontmatter classes but has no heading`, className);
+            }
+        }
+    }
+
+    private async checkEntryTime(date: string, entry: ClassEntry, report: (message: string) => void) {
+        const scheduleType = await this.scheduleService.getScheduleType(date);
+        const expected = await this.scheduleService.getTimeForScheduleType(entry.className, scheduleType, date);
+        const actual = this.parserService.parseTime(entry.time);
+        const expectedTime = this.parserService.parseTime(expected.time);
+
+        // Times flagged for review (e.g. an unknown early dismissal time) are expected to be adjusted by hand
+        if (!actual) {
+            report(`"${entry.time}" is not a valid time`);
+        } else if (expectedTime && !expected.needsReview && actual.totalMinutes !== expectedTime.totalMinutes) {
+            const scheduleName = scheduleType === 'regular' ? 'regular' : scheduleType.replace(/_/g, ' ');
+            report(`${entry.className} is at ${entry.time} but its ${scheduleName} time is ${expected.time}`);
+        }
+    }
+
+    // Gaps, repeats and out-of-order days within one class's run of a unit
+    private checkDaySequence(className: string, unitName: string, days: ScheduledDay[]): ConsistencyIssue[] {
+        const issues: ConsistencyIssue[] = [];
+        const seen = new Map<number, ScheduledDay>();
+        let previous: ScheduledDay | null = null;
+
+        for (const day of days) {
+            const duplicate = seen.get(day.dayNumber);
+            if (duplicate) {
+                issues.push({
+                    type: 'day_sequence',
+                    filePath: day.filePath,
+                    date: day.date,
+                    className,
+                    message: `${className} has ${unitName} Day ${day.dayNumber} again (also on ${duplicate.date})`
+                });
+            } else {
+                seen.set(day.dayNumber, day);
+            }
+
+            if (previous && day.dayNumber < previous.dayNumber) {
+                issues.push({
+                    type: 'day_sequence',
+                    filePath: day.filePath,
+                    date: day.date,
+                    className,
+                    message: `${className} has ${unitName} Day ${day.dayNumber} after Day ${previous.dayNumber} (${previous.date})`
+                });
+            }
+            previous = day;
+        }
+
+        // Up to the unit's length, so a run that stops early reports its trailing days too
+        const first = days[0];
+        const highest = Math.max(...days.map(day => day.dayNumber));
+        const missing: number[] = [];
+        for (let dayNumber = 1; dayNumber <= Math.max(highest, first.totalDays); dayNumber++) {
+            if (!seen.has(dayNumber)) missing.push(dayNumber);
+        }
+        if (missing.length > 0) {
+            issues.push({
+                type: 'day_sequence',
+                filePath: first.filePath,
+                date: first.date,
+                className,
+                message: `${className} is missing ${unitName} Day ${missing.join(', ')} of ${first.totalDays}`
+            });
+        }
+
+        return issues;
+    }
+
+    // [[Folder/Unit#Day 3|Alias]] -> "Unit"
+    private getLinkTarget(link: string): string {
+        const target = link.split('|')[0].split('#')[0].trim();
+        return target.split('/').pop() || '';
+    }
+}
@@ -1,9 +1,12 @@
 import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import { FileSnapshot } from '../types';
 
 export class FileService {
     private app: App;
     private rootPath: string;
     private cache: Map<string, string> = new Map();
+    // While set, every write records the file's prior content so the operation can be undone
+    private journal: Map<string, FileSnapshot> | null = null;
 
     constructor(app: App, rootPath: string) {
         this.app = app;
@@ -20,6 +23,25 @@ export class FileService {
         return file instanceof TFile;
     }
 
+    // Create the folder (and any missing parents) if it doesn't exist yet
+    async ensureFolder(path: string): Promise<void> {
+        const normalizedPath = normalizePath(path);
+        if (normalizedPath === '/' || await this.folderExists(normalizedPath)) {
+            return;
+        }
+
+        const parent = normalizedPath.split('/').slice(0, -1).join('/');
+        if (parent) {
+            await this.ensureFolder(parent);
+        }
+        await this.app.vault.createFolder(normalizedPath);
+    }
+
+    getFile(path: string): TFile | null {
+        const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+        return file instanceof TFile ? file : null;
+    }
+
     async readFile(path: string, useCache: boolean = true): Promise<string | null> {
         const normalizedPath = normalizePath(path);
         
@@ -50,6 +72,7 @@ export class FileService {
         try {
             const normalizedPath = normalizePath(path);
             const file = this.app.vault.getAbstractFileByPath(normalizedPath);
+            await this.recordBeforeChange(normalizedPath);
             
             if (file instanceof TFile) {
                 await this.app.vault.modify(file, content);
@@ -59,6 +82,7 @@ export class FileService {
 
             // Update cache
             this.cache.set(normalizedPath, content);
+            this.recordAfterChange(normalizedPath, content);
             return true;
         } catch (error) {
             console.error(`Error writing file ${path}:`, error);
@@ -70,10 +94,12 @@ export class FileService {
     async createFile(path: string, content: string): Promise<boolean> {
         try {
             const normalizedPath = normalizePath(path);
+            await this.recordBeforeChange(normalizedPath);
             await this.app.vault.create(normalizedPath, content);
             
             // Update cache
             this.cache.set(normalizedPath, content);
+            this.recordAfterChange(normalizedPath, content);
             return true;
         } catch (error) {
             console.error(`Error creating file ${path}:`, error);
@@ -81,6 +107,55 @@ export class FileService {
         }
     }
 
+    async deleteFile(path: string): Promise<boolean> {
+        try {
+            const normalizedPath = normalizePath(path);
+            const file = this.app.vault.getAbstractFileByPath(normalizedPath);
+            if (!(file instanceof TFile)) {
+                return false;
+            }
+
+            await this.recordBeforeChange(normalizedPath);
+            await this.app.vault.trash(file, true);
+
+            this.cache.delete(normalizedPath);
+            this.recordAfterChange(normalizedPath, null);
+            return true;
+        } catch (error) {
+            console.error(`Error deleting file ${path}:`, error);
+            return false;
+        }
+    }
+
+    // Start recording every write, create and delete until stopJournal is called
+    startJournal(): void {
+        this.journal = new Map();
+    }
+
+    stopJournal(): FileSnapshot[] {
+        const snapshots = this.journal ? Array.from(this.journal.values()) : [];
+        this.journal = null;
+        return snapshots;
+    }
+
+    private async recordBeforeChange(normalizedPath: string): Promise<void> {
+        if (!this.journal || this.journal.has(normalizedPath)) {
+            return;
+        }
+
+        // Read straight from the vault: the cache may not reflect edits made by hand
+        const file = this.app.vault.getAbstractFileByPath(normalizedPath);
+        const before = file instanceof TFile ? await this.app.vault.read(file) : null;
+        this.journal.set(normalizedPath, { path: normalizedPath, before, after: before });
+    }
+
+    private recordAfterChange(normalizedPath: string, content: string | null): void {
+        const snapshot = this.journal?.get(normalizedPath);
+        if (snapshot) {
+            snapshot.after = content;
+        }
+    }
+
     async getFilesInFolder(folderPath: string, pattern?: RegExp): Promise<TFile[]> {
         try {
             const normalizedPath = normalizePath(`${this.rootPath}/${folderPath}`);
@@ -130,6 +205,10 @@ export class FileService {
         return await this.getFilesInFolder('Classes', /\.md$/);
     }
 
+    async getPacingGuides(): Promise<TFile[]> {
+        return await this.getFilesInFolder('Pacing Guides', /\.md$/);
+    }
+
     invalidateCache(path?: string): void {
         if (path) {
             this.cache.delete(normalizePath(path));
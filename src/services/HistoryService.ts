@@ -0,0 +1,151 @@
+import { FileService } from './FileService';
+import { ScheduleService } from './ScheduleService';
+import { FileSnapshot, OperationHistory } from '../types';
+
+export interface HistoryResult {
+    success: boolean;
+    operation?: string;
+    files?: string[];
+    editedFiles?: string[];
+    error?: string;
+}
+
+export class HistoryService {
+    private fileService: FileService;
+    private scheduleService: ScheduleService;
+    private undoStack: OperationHistory[] = [];
+    private redoStack: OperationHistory[] = [];
+    private readonly MAX_HISTORY = 20;
+
+    constructor(fileService: FileService, scheduleService: ScheduleService) {
+        this.fileService = fileService;
+        this.scheduleService = scheduleService;
+    }
+
+    /**
+     * Run a planner operation and record every file it touches as one undoable step
+     */
+    async record<T>(operation: string, action: () => Promise<T>): Promise<T> {
+        this.fileService.startJournal();
+        try {
+            return await action();
+        } finally {
+            const files = this.fileService.stopJournal().filter(file => file.before !== file.after);
+
+            if (files.length > 0) {
+                this.undoStack.push({
+                    operation,
+                    timestamp: Date.now(),
+                    data: {
+                        files,
+                        createdFiles: files.filter(file => file.before === null).map(file => file.path)
+                    },
+                    canUndo: true
+                });
+                if (this.undoStack.length > this.MAX_HISTORY) {
+                    this.undoStack.shift();
+                }
+                this.redoStack = [];
+            }
+        }
+    }
+
+    getUndoLabel(): string | null {
+        const entry = this.undoStack[this.undoStack.length - 1];
+        return entry ? entry.operation : null;
+    }
+
+    getRedoLabel(): string | null {
+        const entry = this.redoStack[this.redoStack.length - 1];
+        return entry ? entry.operation : null;
+    }
+
+    /**
+     * Restore every file touched by the last operation. Refuses if any of them changed since.
+     */
+    async undo(): Promise<HistoryResult> {
+        const entry = this.undoStack[this.undoStack.length - 1];
+        if (!entry || !entry.canUndo) {
+            return { success: false, error: 'Nothing to undo' };
+        }
+
+        const editedFiles = await this.findEditedFiles(entry.data.files, 'after');
+        if (editedFiles.length > 0) {
+            return {
+                success: false,
+                operation: entry.operation,
+                editedFiles,
+                error: `${editedFiles.length} files were edited after "${entry.operation}"`
+            };
+        }
+
+        await this.restore(entry.data.files, 'before');
+
+        this.undoStack.pop();
+        this.redoStack.push(entry);
+
+        return { success: true, operation: entry.operation, files: entry.data.files.map(file => file.path) };
+    }
+
+    /**
+     * Re-apply the last undone operation. Refuses if any of its files changed since the undo.
+     */
+    async redo(): Promise<HistoryResult> {
+        const entry = this.redoStack[this.redoStack.length - 1];
+        if (!entry) {
+            return { success: false, error: 'Nothing to redo' };
+        }
+
+        const editedFiles = await this.findEditedFiles(entry.data.files, 'before');
+        if (editedFiles.length > 0) {
+            return {
+                success: false,
+                operation: entry.operation,
+                editedFiles,
+                error: `${editedFiles.length} files were edited after undoing "${entry.operation}"`
+            };
+        }
+
+        await this.restore(entry.data.files, 'after');
+
+        this.redoStack.pop();
+        this.undoStack.push(entry);
+
+        return { success: true, operation: entry.operation, files: entry.data.files.map(file => file.path) };
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    // Files whose current content no longer matches what the history expects
+    private async findEditedFiles(files: FileSnapshot[], expected: 'before' | 'after'): Promise<string[]> {
+        const edited: string[] = [];
+
+        for (const file of files) {
+            const current = await this.fileService.readFile(file.path, false);
+            if (current !== file[expected]) {
+                edited.push(file.path);
+            }
+        }
+
+        return edited;
+    }
+
+    private async restore(files: FileSnapshot[], state: 'before' | 'after'): Promise<void> {
+        for (const file of [...files].reverse()) {
+            const content = file[state];
+            const restored = content === null
+                ? await this.fileService.deleteFile(file.path)
+                : await this.fileService.writeFile(file.path, content);
+
+            if (!restored) {
+                throw new Error(`Could not restore ${file.path}`);
+            }
+        }
+
+        // Restored holiday, special schedule or class notes must not be shadowed by cached copies
+        this.scheduleService.clearCache();
+    }
+}
@@ -4,59 +4,142 @@ import {
     DailyPlan, 
     ClassSchedule, 
     Unit,
+    PacingGuide,
+    ClassBlock,
+    HolidayEntry,
+    RotationCalendar,
+    SchoolYear,
+    SchoolTerm,
+    SpecialSchedules,
+    BUILT_IN_SCHEDULE_TYPES,
     ValidationResult,
+    ParseResult,
+    InsertResult,
+    TimeOverlap,
     TIME_REGEX,
     DATE_REGEX,
     CLASS_HEADER_REGEX,
-    FRONTMATTER_CLASSES_REGEX,
-    YAML_STRING_REGEX
+    YAML_STRING_REGEX,
+    DAY_MAP,
+    DayOfWeek
 } from '../types';
+import { addDays, getWeekdayName, parseDateString } from '../utils/dateUtils';
+import { FrontmatterReader } from '../utils/frontmatter';
 
 export class ParserService {
     private timeCache = new Map<string, ParsedTime>();
     
-    // Time parsing function with school day AM/PM logic - COPIED FROM WORKING SCRIPT
+    // School day window in minutes after midnight; decides AM/PM for times written without one
+    private schoolDayStart = 7 * 60;
+    private schoolDayEnd = 18 * 60;
+
+    /**
+     * Set the school day window, e.g. ("7:00 AM", "6:00 PM"). Returns false if either time is invalid.
+     */
+    setSchoolDayWindow(startTime: string, endTime: string): boolean {
+        const start = this.parseTime(startTime, false);
+        const end = this.parseTime(endTime, false);
+        if (!start || !end || end.totalMinutes <= start.totalMinutes) {
+            return false;
+        }
+
+        this.schoolDayStart = start.totalMinutes;
+        this.schoolDayEnd = end.totalMinutes;
+        this.timeCache.clear();
+        return true;
+    }
+
+    /**
+     * Parse "7:15 AM", "3:30pm", "15:30" or "9:30" into a 24-hour time.
+     * Times without AM/PM are read as 24-hour when the hour is 0, 13-23 or zero-padded ("07:15");
+     * otherwise AM or PM is inferred from whichever reading falls in (or nearest) the school day window.
+     */
+    parseTime(timeStr: string, inferMeridiem = true): ParsedTime | null {
+        const key = timeStr.trim();
+        const cached = inferMeridiem ? this.timeCache.get(key) : undefined;
+        if (cached) {
+            return cached;
+        }
+
+        const match = key.match(TIME_REGEX);
+        if (!match) {
+            return null;
+        }
+
+        let hours = parseInt(match[1], 10);
+        const minutes = match[2] ? parseInt(match[2], 10) : 0;
+        const meridiem = match[3] ? match[3].toLowerCase() : null;
+
+        if (minutes > 59) {
+            return null;
+        }
+
+        if (meridiem) {
+            if (hours < 1 || hours > 12) return null;
+            hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+        } else {
+            // A bare hour like "9" is too ambiguous to accept
+            if (!match[2] || hours > 23) return null;
+            if (inferMeridiem && hours >= 1 && hours <= 12 && !match[1].startsWith('0')) {
+                hours = this.inferHours(hours, minutes);
+            }
+        }
+
+        const parsed: ParsedTime = {
+            hours,
+            minutes,
+            totalMinutes: hours * 60 + minutes,
+            originalString: timeStr
+        };
+        if (inferMeridiem) {
+            this.timeCache.set(key, parsed);
+        }
+        return parsed;
+    }
+
+    // Minutes after midnight, used wherever class times are compared or sorted
     parseTimeToMinutes(timeStr: string): number {
-        // Match H:MM or HH:MM format exactly
-        const timeMatch = timeStr.match(/^(\d{1,2}):(\d{2})$/);
-        
-        if (!timeMatch) {
-            console.error(`Invalid time format: "${timeStr}". Expected H:MM or HH:MM format.`);
+        const parsed = this.parseTime(timeStr);
+        if (!parsed) {
+            console.error(`Invalid time format: "${timeStr}". Expected a time like 9:30, 9:30 AM or 14:30.`);
             return 0; // Default to midnight if parsing fails
         }
-        
-        let hours = parseInt(timeMatch[1], 10);
-        const minutes = parseInt(timeMatch[2], 10);
-        
-        if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) {
-            console.error(`Invalid time values: "${timeStr}". Hours must be 0-23, minutes 0-59.`);
+        return parsed.totalMinutes;
+    }
+
+    // Pick AM or PM for an hour of 1-12, preferring the reading closest to the school day window
+    private inferHours(hours: number, minutes: number): number {
+        const morning = (hours % 12) * 60 + minutes;
+        const afternoon = morning + 12 * 60;
+        const distance = (totalMinutes: number) => {
+            if (totalMinutes < this.schoolDayStart) return this.schoolDayStart - totalMinutes;
+            if (totalMinutes > this.schoolDayEnd) return totalMinutes - this.schoolDayEnd;
             return 0;
-        }
-        
-        // School day logic: Hours 1-7 are assumed to be PM (13-19 in 24-hour)
-        // Hours 8-12 are assumed to be AM (8-12 in 24-hour)
-        // Hours 0, 13-23 are left as-is (24-hour format)
-        if (hours >= 1 && hours <= 7) {
-            hours += 12; // Convert 1:00-7:59 to 13:00-19:59 (PM)
-        }
-        
-        const totalMinutes = hours * 60 + minutes;
-        return totalMinutes;
+        };
+
+        return distance(afternoon) < distance(morning) ? (hours % 12) + 12 : hours % 12;
     }
 
     // Time insertion function for format: ## H:MM - Class Name - COPIED FROM WORKING SCRIPT
-    insertClassByTimeFixed(content: string, classEntry: string, newTime: string, className: string): { content: string; conflict: boolean } {
+    // durations (minutes per class name) turn the exact-start conflict check into a real overlap check
+    insertClassByTimeFixed(
+        content: string,
+        classEntry: string,
+        newTime: string,
+        className: string,
+        durations: { [className: string]: number } = {}
+    ): InsertResult {
         const lines = content.split('\n');
         const newTimeMinutes = this.parseTimeToMinutes(newTime);
         
         let insertIndex = -1;
-        let timeConflict = false;
+        const overlaps: TimeOverlap[] = [];
         const existingTimes = [];
         
         // Find all existing class times and their positions
         for (let i = 0; i < lines.length; i++) {
-            // Match exact format: ## H:MM - Class Name or ## HH:MM - Class Name
-            const timeMatch = lines[i].match(/^## (\d{1,2}:\d{2}) - /);
+            // Match class headers such as ## 9:30 - Class Name or ## 1:15 PM - Class Name
+            const timeMatch = lines[i].match(CLASS_HEADER_REGEX);
             if (timeMatch) {
                 const existingTime = timeMatch[1];
                 const existingTimeMinutes = this.parseTimeToMinutes(existingTime);
@@ -67,12 +150,27 @@ export class ParserService {
                     lineIndex: i
                 });
                 
-                // Check for exact time conflict
-                if (newTimeMinutes === existingTimeMinutes) {
-                    timeConflict = true;
+                // Check for overlapping time ranges
+                const classNameMatch = lines[i].match(/^## [^-]+ - ([^(\n]+)/);
+                const existingClass = classNameMatch ? classNameMatch[1].trim() : '';
+                if (existingClass === className) continue;
+
+                const overlapMinutes = this.getOverlapMinutes(
+                    newTimeMinutes, durations[className] || 0,
+                    existingTimeMinutes, durations[existingClass] || 0
+                );
+                if (overlapMinutes !== null) {
+                    overlaps.push({
+                        className,
+                        time: newTime,
+                        otherClass: existingClass,
+                        otherTime: existingTime,
+                        minutes: overlapMinutes
+                    });
                 }
             }
         }
+        const timeConflict = overlaps.length > 0;
         
         // Sort existing times to find correct insertion point
         existingTimes.sort((a, b) => a.minutes - b.minutes);
@@ -87,7 +185,7 @@ export class ParserService {
         
         // If no insertion point found, append at the end
         if (insertIndex === -1) {
-            return { content: content + '\n' + classEntry + '\n', conflict: timeConflict };
+            return { content: content + '\n' + classEntry + '\n', conflict: timeConflict, overlaps };
         }
         
         let actualInsertIndex = insertIndex;
@@ -100,7 +198,7 @@ export class ParserService {
                 actualInsertIndex = i;
                 foundExistingDivider = true;
                 break;
-            } else if (lines[i].trim() !== '' && !lines[i].match(/^## \d{1,2}:\d{2} - /)) {
+            } else if (lines[i].trim() !== '' && !lines[i].match(CLASS_HEADER_REGEX)) {
                 // Found non-empty, non-class content - stop looking
                 break;
             }
@@ -122,7 +220,25 @@ export class ParserService {
 
         lines.splice(actualInsertIndex, 0, ...insertContent);
         
-        return { content: lines.join('\n'), conflict: timeConflict };
+        return { content: lines.join('\n'), conflict: timeConflict, overlaps };
+    }
+
+    // Minutes two classes share, or null if they don't collide. Classes of unknown length only collide on the same start.
+    private getOverlapMinutes(startA: number, lengthA: number, startB: number, lengthB: number): number | null {
+        if (startA === startB) {
+            return Math.min(lengthA, lengthB) || Math.max(lengthA, lengthB);
+        }
+
+        const overlap = Math.min(startA + lengthA, startB + lengthB) - Math.max(startA, startB);
+        return overlap > 0 ? overlap : null;
+    }
+
+    // e.g. "Science (9:30) overlaps Math (9:00) by 15 min"
+    describeOverlap(overlap: TimeOverlap): string {
+        const collision = overlap.minutes > 0
+            ? `overlaps ${overlap.otherClass} (${overlap.otherTime}) by ${overlap.minutes} min`
+            : `starts at the same time as ${overlap.otherClass}`;
+        return `${overlap.className} (${overlap.time}) ${collision}`;
     }
 
     // Validation for date format - COPIED FROM WORKING SCRIPT
@@ -137,106 +253,257 @@ export class ParserService {
     
     // Parse daily plan from file content
     parseDailyPlan(content: string, filePath: string): DailyPlan | null {
-        try {
-            // Extract date from filename
-            const dateMatch = filePath.match(/(\d{4}-\d{2}-\d{2})\.md$/);
-            if (!dateMatch) {
-                return null;
-            }
-
-            const date = dateMatch[1];
-            
-            // Extract day of week from frontmatter
-            const dayMatch = content.match(/day_of_week:\s*"([^"]+)"/);
-            const dayOfWeek = dayMatch ? dayMatch[1] : '';
-
-            // Extract classes from frontmatter
-            const classesMatch = content.match(FRONTMATTER_CLASSES_REGEX);
-            let classes: string[] = [];
-            
-            if (classesMatch && classesMatch[1].trim()) {
-                classes = classesMatch[1]
-                    .split(',')
-                    .map(c => c.trim().replace(/['"]/g, ''))
-                    .filter(c => c.length > 0);
-            }
+        return this.readDailyPlan(content, filePath).value;
+    }
 
+    // Daily plan plus any problems with its frontmatter
+    readDailyPlan(content: string, filePath: string): ParseResult<DailyPlan> {
+        // Extract date from filename
+        const dateMatch = filePath.match(/(\d{4}-\d{2}-\d{2})\.md$/);
+        if (!dateMatch) {
             return {
-                date,
-                dayOfWeek,
-                classes,
-                filePath
+                value: null,
+                validation: { valid: false, errors: [`${filePath}: file name is not a YYYY-MM-DD date`], warnings: [] }
             };
-        } catch (error) {
-            console.error(`Error parsing daily plan from ${filePath}:`, error);
-            return null;
         }
+
+        const date = dateMatch[1];
+        const frontmatter = new FrontmatterReader(content, filePath);
+
+        const frontmatterDate = frontmatter.getDate('date');
+        if (frontmatterDate && frontmatterDate !== date) {
+            frontmatter.addWarning('date', `is ${frontmatterDate} but the file is named ${date}`);
+        }
+
+        return {
+            value: {
+                date,
+                dayOfWeek: frontmatter.getString('day_of_week') || '',
+                classes: frontmatter.getList('classes'),
+                filePath,
+                cancelled: frontmatter.getBoolean('cancelled'),
+                cycleDay: frontmatter.getString('cycle_day')
+            },
+            validation: frontmatter.getValidation()
+        };
     }
 
     // Parse class schedule from file content
     parseClassSchedule(content: string, filePath: string): ClassSchedule | null {
-        try {
-            const fileName = filePath.split('/').pop()?.replace('.md', '') || '';
-            
-            const gradeMatch = content.match(/grade:\s*"([^"]+)"/);
-            const teacherMatch = content.match(/teacher:\s*"([^"]+)"/);
-            const dayMatch = content.match(/day_of_week:\s*"([^"]+)"/);
-            const regularTimeMatch = content.match(/regular_time:\s*"([^"]+)"/);
-            const earlyTimeMatch = content.match(/early_dismissal_time:\s*"([^"]+)"/);
-            const testingTimeMatch = content.match(/testing_day_time:\s*"([^"]+)"/);
-            const unitsMatch = content.match(/current_units:\s*\[(.*?)\]/);
-
-            let currentUnits: string[] = [];
-            if (unitsMatch && unitsMatch[1].trim()) {
-                currentUnits = unitsMatch[1]
-                    .split(',')
-                    .map(u => u.trim().replace(/['"]/g, ''))
-                    .filter(u => u.length > 0);
+        return this.readClassSchedule(content, filePath).value;
+    }
+
+    // Class schedule plus any missing or malformed frontmatter fields
+    readClassSchedule(content: string, filePath: string): ParseResult<ClassSchedule> {
+        const fileName = filePath.split('/').pop()?.replace('.md', '') || '';
+        const frontmatter = new FrontmatterReader(content, filePath);
+
+        const daysOfWeek = frontmatter.getList('day_of_week').map(day => this.normalizeDayName(day));
+        const cycleDays = frontmatter.getList('cycle_days');
+        if (daysOfWeek.length === 0 && cycleDays.length === 0) {
+            frontmatter.addError('day_of_week', 'is missing (or set cycle_days for a rotation schedule)');
+        }
+        for (const day of daysOfWeek) {
+            if (DAY_MAP[day as DayOfWeek] === undefined) {
+                frontmatter.addError('day_of_week', `has an unknown weekday "${day}"`);
             }
+        }
 
-            return {
+        const regularTime = this.readTime(frontmatter, 'regular_time', true) || '';
+
+        // Optional per-weekday times, e.g. wednesday_time: 10:15
+        const weekdayTimes: { [day: string]: string } = {};
+        for (const day of daysOfWeek) {
+            const override = this.readTime(frontmatter, `${day.toLowerCase()}_time`);
+            if (override) {
+                weekdayTimes[day] = override;
+            }
+        }
+
+        const durationMinutes = this.readDuration(frontmatter, 'duration_minutes');
+        const specialDurations: { [slug: string]: number } = {};
+        for (const key of frontmatter.keys()) {
+            const slugMatch = key.match(/^(\w+)_duration_minutes$/);
+            const duration = slugMatch ? this.readDuration(frontmatter, key) : undefined;
+            if (slugMatch && duration) {
+                specialDurations[slugMatch[1]] = duration;
+            }
+        }
+
+        // Every other <slug>_time field is a time for the special schedule type with that slug.
+        // "TBD" is kept as a placeholder for times that aren't known yet. Custom types live in
+        // Special Schedules.md, so a non-time value under any other slug (e.g. prep_time: none)
+        // may be an unrelated field and only gets a warning.
+        const specialTimes: { [slug: string]: string } = {};
+        const weekdaySlugs = Object.keys(DAY_MAP).map(day => day.toLowerCase());
+        for (const key of frontmatter.keys()) {
+            const slugMatch = key.match(/^(\w+)_time$/);
+            if (!slugMatch || slugMatch[1] === 'regular' || weekdaySlugs.includes(slugMatch[1])) continue;
+
+            const slug = slugMatch[1];
+            if (BUILT_IN_SCHEDULE_TYPES.some(type => type.slug === slug)) {
+                const value = frontmatter.getTimeString(key);
+                const time = value === 'TBD' ? value : this.readTime(frontmatter, key);
+                if (time) {
+                    specialTimes[slug] = time;
+                }
+                continue;
+            }
+
+            const value = frontmatter.getTimeString(key);
+            if (value === undefined) continue;
+            if (value === 'TBD' || this.validateTime(value).valid) {
+                specialTimes[slug] = value;
+            } else {
+                frontmatter.addWarning(key, `is not a time like 9:30 (got "${value}"), so it is not used for a special schedule`);
+            }
+        }
+
+        return {
+            value: {
                 name: fileName,
-                grade: gradeMatch ? gradeMatch[1] : '',
-                teacher: teacherMatch ? teacherMatch[1] : '',
-                dayOfWeek: dayMatch ? dayMatch[1] : '',
-                regularTime: regularTimeMatch ? regularTimeMatch[1] : '',
-                earlyDismissalTime: earlyTimeMatch ? earlyTimeMatch[1] : undefined,
-                testingDayTime: testingTimeMatch ? testingTimeMatch[1] : undefined,
-                currentUnits,
+                grade: frontmatter.getString('grade') || '',
+                teacher: frontmatter.getString('teacher') || '',
+                daysOfWeek,
+                cycleDays,
+                regularTime,
+                weekdayTimes,
+                specialTimes,
+                durationMinutes,
+                specialDurations,
+                currentUnits: frontmatter.getList('current_units'),
                 filePath
-            };
-        } catch (error) {
-            console.error(`Error parsing class schedule from ${filePath}:`, error);
-            return null;
-        }
+            },
+            validation: frontmatter.getValidation()
+        };
     }
 
     // Parse unit from file content
     parseUnit(content: string, filePath: string): Unit | null {
-        try {
-            const fileName = filePath.split('/').pop()?.replace('.md', '') || '';
-            
-            const durationMatch = content.match(/duration_days:\s*(\d+)/);
-            const classesMatch = content.match(/active_classes:\s*\[(.*?)\]/);
-
-            let activeClasses: string[] = [];
-            if (classesMatch && classesMatch[1].trim()) {
-                activeClasses = classesMatch[1]
-                    .split(',')
-                    .map(c => c.trim().replace(/['"]/g, ''))
-                    .filter(c => c.length > 0);
+        return this.readUnit(content, filePath).value;
+    }
+
+    // Unit plus any missing or malformed frontmatter fields
+    readUnit(content: string, filePath: string): ParseResult<Unit> {
+        const fileName = filePath.split('/').pop()?.replace('.md', '') || '';
+        const frontmatter = new FrontmatterReader(content, filePath);
+
+        const dayHeadings = this.findDayHeadings(content);
+        const headingCount = Array.from(new Set(dayHeadings)).length;
+
+        let durationDays = frontmatter.getNumber('duration_days') || 0;
+        if (durationDays && (!Number.isInteger(durationDays) || durationDays < 1)) {
+            frontmatter.addError('duration_days', `should be a whole number of days (got ${durationDays})`);
+            durationDays = 0;
+        }
+
+        // Without duration_days the unit is as long as its Day headings say
+        if (!frontmatter.has('duration_days')) {
+            if (headingCount > 0) {
+                durationDays = headingCount;
+            } else {
+                frontmatter.addError('duration_days', 'is missing and there are no "## Day N" headings to count');
             }
+        } else if (durationDays && headingCount > 0 && headingCount !== durationDays) {
+            frontmatter.addWarning('duration_days', `is ${durationDays} but the note has ${headingCount} Day headings`);
+        }
 
-            return {
+        return {
+            value: {
                 name: fileName,
-                durationDays: durationMatch ? parseInt(durationMatch[1]) : 0,
-                activeClasses,
+                durationDays,
+                activeClasses: frontmatter.getList('active_classes'),
+                dayHeadings,
                 filePath
-            };
-        } catch (error) {
-            console.error(`Error parsing unit from ${filePath}:`, error);
-            return null;
+            },
+            validation: frontmatter.getValidation()
+        };
+    }
+
+    // N from headings like "## Day 3", the targets of the ![[Unit#Day N]] embeds in class entries
+    findDayHeadings(content: string): number[] {
+        const dayNumbers: number[] = [];
+        for (const line of content.split('\n')) {
+            const match = line.match(/^#{1,6}\s+Day\s+(\d+)\s*$/);
+            if (match) dayNumbers.push(parseInt(match[1], 10));
         }
+        return dayNumbers;
+    }
+
+    /**
+     * Days 1 to totalDays without a heading (their embeds come out empty) and
+     * days with more than one (embeds only ever show the first)
+     */
+    checkDayHeadings(dayHeadings: number[], totalDays: number): { missing: number[]; duplicated: number[] } {
+        const missing: number[] = [];
+        const duplicated: number[] = [];
+
+        for (let day = 1; day <= totalDays; day++) {
+            const count = dayHeadings.filter(heading => heading === day).length;
+            if (count === 0) missing.push(day);
+            if (count > 1) duplicated.push(day);
+        }
+
+        return { missing, duplicated };
+    }
+
+    /**
+     * Units in teaching order come from the frontmatter "units" list or, failing that,
+     * from list items in the body that link to a unit: "1. [[Fractions]]" or "- [[Fractions|Unit 2]]"
+     */
+    readPacingGuide(content: string, filePath: string): ParseResult<PacingGuide> {
+        const name = filePath.split('/').pop()?.replace('.md', '') || '';
+        const frontmatter = new FrontmatterReader(content, filePath);
+        const stripLink = (item: string) => item.replace(/^\[\[|\]\]$/g, '').split('|')[0].split('#')[0].trim();
+
+        let units = frontmatter.getList('units').map(stripLink);
+        if (units.length === 0) {
+            for (const line of content.split('\n')) {
+                const match = line.match(/^\s*(?:[-*+]|\d+[.)])\s+\[\[([^\]]+)\]\]/);
+                if (match) units.push(stripLink(match[1]));
+            }
+        }
+        units = units.filter(unit => unit.length > 0);
+        if (units.length === 0) {
+            frontmatter.addError('units', 'is missing; list the units in frontmatter or as [[links]] in the note');
+        }
+
+        return {
+            value: {
+                name,
+                className: frontmatter.getString('class'),
+                startDate: frontmatter.getDate('start_date'),
+                endDate: frontmatter.getDate('end_date'),
+                units,
+                filePath
+            },
+            validation: frontmatter.getValidation()
+        };
+    }
+
+    // Read a class length in minutes, recording an error when it is present but not a positive whole number
+    private readDuration(frontmatter: FrontmatterReader, key: string): number | undefined {
+        const minutes = frontmatter.getNumber(key);
+        if (minutes !== undefined && (!Number.isInteger(minutes) || minutes < 1)) {
+            frontmatter.addError(key, `should be a whole number of minutes (got ${minutes})`);
+            return undefined;
+        }
+        return minutes;
+    }
+
+    // Read a time field, recording an error when it is present but not a valid time
+    private readTime(frontmatter: FrontmatterReader, key: string, required = false): string | undefined {
+        const time = frontmatter.getTimeString(key, required);
+        if (time === undefined) {
+            return undefined;
+        }
+
+        const validation = this.validateTime(time);
+        if (!validation.valid) {
+            frontmatter.addError(key, `should be a time like 9:30 (got "${time}")`);
+            return undefined;
+        }
+        return time;
     }
 
     // Extract class entries from daily plan content
@@ -267,11 +534,11 @@ export class ParserService {
                     scheduleNote = noteMatch[1];
                 }
                 
-                // Search next few lines for unit and day info
-                for (let j = i + 1; j < Math.min(i + 10, lines.length); j++) {
+                // Search the rest of the entry for unit and day info; templates may put other sections first
+                for (let j = i + 1; j < lines.length; j++) {
                     const nextLine = lines[j];
                     
-                    if (nextLine.match(/^## /)) break; // Next class entry
+                    if (nextLine.match(CLASS_HEADER_REGEX) || nextLine.trim() === '---') break; // End of this entry
                     
                     const unitMatch = nextLine.match(/\*\*Unit:\*\*\s*\[\[([^\]]+)\]\]/);
                     if (unitMatch) {
@@ -299,92 +566,585 @@ export class ParserService {
         return entries;
     }
 
+    // Locate every class section in a daily plan, from its header through its "---" divider
+    extractClassBlocks(content: string): ClassBlock[] {
+        const blocks: ClassBlock[] = [];
+        const lines = content.split('\n');
+
+        for (let i = 0; i < lines.length; i++) {
+            const headerMatch = lines[i].match(CLASS_HEADER_REGEX);
+            if (!headerMatch) continue;
+
+            const classNameMatch = lines[i].match(/^## [^-]+ - ([^(\n]+)/);
+            const noteMatch = lines[i].match(/\(([^)]+)\)$/);
+
+            let endLine = lines.length - 1;
+            let hasDivider = false;
+            for (let j = i + 1; j < lines.length; j++) {
+                if (lines[j].match(CLASS_HEADER_REGEX)) {
+                    endLine = j - 1;
+                    break;
+                }
+                if (lines[j].trim() === '---') {
+                    endLine = j;
+                    hasDivider = true;
+                    break;
+                }
+            }
+
+            const bodyLines = lines.slice(i + 1, hasDivider ? endLine : endLine + 1);
+            while (bodyLines.length > 0 && bodyLines[bodyLines.length - 1].trim() === '') {
+                bodyLines.pop();
+            }
+
+            const body = bodyLines.join('\n');
+            const unitMatch = body.match(/\*\*Unit:\*\*\s*\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/);
+            const dayMatch = body.match(/\*\*Day:\*\*\s*(\d+)\s*of\s*(\d+)/);
+
+            blocks.push({
+                className: classNameMatch ? classNameMatch[1].trim() : '',
+                time: headerMatch[1],
+                scheduleNote: noteMatch ? noteMatch[1] : '',
+                unit: unitMatch ? unitMatch[1].trim() : '',
+                dayNumber: dayMatch ? parseInt(dayMatch[1]) : 0,
+                totalDays: dayMatch ? parseInt(dayMatch[2]) : 0,
+                startLine: i,
+                endLine,
+                body
+            });
+            i = endLine;
+        }
+
+        return blocks;
+    }
+
+    findClassBlock(content: string, className: string): ClassBlock | null {
+        return this.extractClassBlocks(content).find(block => block.className === className) || null;
+    }
+
+    // Remove a class section together with its divider, collapsing the blank lines left behind
+    removeClassBlock(content: string, className: string): string {
+        const block = this.findClassBlock(content, className);
+        return block ? this.removeBlock(content, block) : content;
+    }
+
+    removeBlock(content: string, block: ClassBlock): string {
+        const lines = content.split('\n');
+        const start = block.startLine;
+        lines.splice(start, block.endLine - block.startLine + 1);
+
+        while (start < lines.length && lines[start].trim() === '' && (start === 0 || lines[start - 1].trim() === '')) {
+            lines.splice(start, 1);
+        }
+
+        return lines.join('\n');
+    }
+
+    // Rewrite the "**Day:** N of M" line of a class section, leaving the rest of the section alone
+    setBlockDay(content: string, block: ClassBlock, dayNumber: number, totalDays: number): string {
+        const lines = content.split('\n');
+        const section = lines.slice(block.startLine, block.endLine + 1).join('\n');
+        lines.splice(block.startLine, block.endLine - block.startLine + 1, ...this.setDayLine(section, dayNumber, totalDays).split('\n'));
+        return lines.join('\n');
+    }
+
+    // Same for a section body on its own, e.g. ClassBlock.body
+    setDayLine(text: string, dayNumber: number, totalDays: number): string {
+        return text.replace(/(\*\*Day:\*\*\s*)\d+(\s*of\s*)\d+/, `$1${dayNumber}$2${totalDays}`);
+    }
+
+    // Build a class entry in the same shape insertClassByTimeFixed expects
+    buildClassEntry(time: string, className: string, scheduleNote: string, body: string): string {
+        return `\n\n## ${time} - ${className}${scheduleNote}\n${body}\n\n---\n\n`;
+    }
+
+    // Content for a brand new daily plan note
+    buildDailyPlanContent(date: string, cycleDay?: string | null): string {
+        const dateObj = parseDateString(date);
+        const cycleDayLine = cycleDay ? `\ncycle_day: "${cycleDay}"` : '';
+        return `---
+date: ${date}
+day_of_week: "${dateObj.toLocaleDateString('en-US', {weekday: 'long'})}"${cycleDayLine}
+classes: []
+---
+
+# ${dateObj.toLocaleDateString('en-US', {weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'})}`;
+    }
+
+    // Flag a daily plan as cancelled in its frontmatter and under its title
+    markDailyPlanCancelled(content: string): string {
+        if (/^cancelled:\s*true/m.test(content)) {
+            return content;
+        }
+
+        const lines = content.split('\n');
+        let frontmatterEnd = -1;
+        if (lines[0] === '---') {
+            frontmatterEnd = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+        }
+        if (frontmatterEnd > 0) {
+            lines.splice(frontmatterEnd, 0, 'cancelled: true');
+            frontmatterEnd++;
+        }
+
+        const titleIndex = lines.findIndex((line, index) => index > frontmatterEnd && line.startsWith('# '));
+        const insertAt = titleIndex >= 0 ? titleIndex + 1 : frontmatterEnd + 1;
+        lines.splice(insertAt, 0, '', '> [!warning] Cancelled', '> Classes from this day were moved to their next meetings.');
+
+        return lines.join('\n');
+    }
+
+    // Set a scalar frontmatter value, replacing the existing line or adding one before the closing ---.
+    // Strings are written quoted, numbers as they are.
+    setFrontmatterValue(content: string, key: string, value: string | number): string {
+        const lines = content.split('\n');
+        if (lines[0] !== '---') return content;
+
+        const frontmatterEnd = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+        if (frontmatterEnd === -1) return content;
+
+        const newLine = typeof value === 'number' ? `${key}: ${value}` : `${key}: "${value}"`;
+        const keyIndex = lines.findIndex((line, index) => index < frontmatterEnd && line.startsWith(`${key}:`));
+        if (keyIndex > 0) {
+            lines[keyIndex] = newLine;
+        } else {
+            lines.splice(frontmatterEnd, 0, newLine);
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * Rebuild the structure of a hand-edited daily plan: class sections sorted by time with
+     * exactly one "---" after each, frontmatter classes taken from the headings and
+     * day_of_week matching the date. Text inside each section is kept as written; text left
+     * between a class's divider and the next heading is moved above that divider.
+     */
+    rebuildDailyPlan(content: string, date: string): string {
+        const lines = content.split('\n');
+        let bodyStart = 0;
+        if (lines[0] === '---') {
+            const frontmatterEnd = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+            if (frontmatterEnd > 0) bodyStart = frontmatterEnd + 1;
+        }
+
+        // Title area, class sections, and other "#"/"##" sections that start after a class's divider
+        const intro: string[] = [];
+        const classSections: Array<{ minutes: number; lines: string[] }> = [];
+        const otherSections: string[][] = [];
+        let current = intro;
+        let afterDivider = false;
+        for (let i = bodyStart; i < lines.length; i++) {
+            const headerMatch = lines[i].match(CLASS_HEADER_REGEX);
+            if (headerMatch) {
+                current = [lines[i]];
+                classSections.push({ minutes: this.parseTimeToMinutes(headerMatch[1]), lines: current });
+            } else if (/^#{1,2} /.test(lines[i]) && current !== intro && afterDivider) {
+                current = [lines[i]];
+                otherSections.push(current);
+            } else {
+                current.push(lines[i]);
+            }
+
+            if (lines[i].trim() !== '') {
+                afterDivider = lines[i].trim() === '---';
+            }
+        }
+
+        // Sections keep their order when two classes share a start time
+        classSections.sort((a, b) => a.minutes - b.minutes);
+
+        const output = lines.slice(0, bodyStart);
+        const append = (section: string[]) => {
+            if (section.length === 0) return;
+            if (output.length > 0) output.push('');
+            output.push(...section);
+        };
+        append(this.trimSectionLines(intro));
+        for (const section of classSections) {
+            append([...this.trimSectionLines(this.removeInnerDividers(section.lines)), '', '---']);
+        }
+        for (const section of otherSections) {
+            append(this.trimSectionLines(section));
+        }
+        output.push('');
+
+        let rebuilt = output.join('\n');
+        if (bodyStart === 0) return rebuilt;
+
+        const headingClasses = this.extractClassEntries(rebuilt)
+            .map(entry => entry.className)
+            .filter((className, index, all) => className && all.indexOf(className) === index)
+            .sort();
+        const listedClasses = this.parseFrontmatterList(rebuilt, 'classes');
+        const sameClasses = listedClasses.length === headingClasses.length &&
+            headingClasses.every(className => listedClasses.includes(className));
+        if (!sameClasses) {
+            rebuilt = this.setFrontmatterList(rebuilt, 'classes', headingClasses);
+        }
+
+        const weekday = getWeekdayName(date);
+        if (new FrontmatterReader(rebuilt, '').getString('day_of_week') !== weekday) {
+            rebuilt = this.setFrontmatterValue(rebuilt, 'day_of_week', weekday);
+        }
+
+        return rebuilt;
+    }
+
+    // Drop the blank lines and stray dividers around a section
+    private trimSectionLines(lines: string[]): string[] {
+        let start = 0;
+        let end = lines.length;
+        while (start < end && lines[start].trim() === '') start++;
+        while (end > start && (lines[end - 1].trim() === '' || lines[end - 1].trim() === '---')) end--;
+        return lines.slice(start, end);
+    }
+
+    // Drop "---" lines inside a class section, with the blank lines after them, so the section gets one closing divider
+    private removeInnerDividers(lines: string[]): string[] {
+        const kept: string[] = [];
+        let afterDivider = false;
+        for (const line of lines) {
+            if (line.trim() === '---') {
+                if (kept.length > 0 && kept[kept.length - 1].trim() !== '') kept.push('');
+                afterDivider = true;
+            } else if (!afterDivider || line.trim() !== '') {
+                kept.push(line);
+                afterDivider = false;
+            }
+        }
+        return kept;
+    }
+
+    /**
+     * Parse the rotation calendar note. Cycle days come from cycle_days,
+     * or are numbered 1..cycle_length when only a length is given.
+     */
+    parseRotationCalendar(content: string, filePath = 'Rotation Calendar.md'): RotationCalendar | null {
+        const frontmatter = new FrontmatterReader(content, filePath);
+
+        const cycleDays = frontmatter.getList('cycle_days');
+        const cycleLength = frontmatter.getNumber('cycle_length');
+        if (cycleDays.length === 0 && cycleLength) {
+            for (let day = 1; day <= cycleLength; day++) {
+                cycleDays.push(String(day));
+            }
+        }
+        if (cycleDays.length === 0) {
+            frontmatter.addError('cycle_days', 'is missing (or set cycle_length)');
+        }
+
+        const anchorDate = frontmatter.getDate('anchor_date', true);
+        const anchorDay = frontmatter.getString('anchor_day') || cycleDays[0];
+        if (cycleDays.length > 0 && !cycleDays.includes(anchorDay)) {
+            frontmatter.addError('anchor_day', `"${anchorDay}" is not one of the cycle days: ${cycleDays.join(', ')}`);
+        }
+
+        const validation = frontmatter.getValidation();
+        if (!validation.valid || !anchorDate) {
+            console.error('Invalid rotation calendar:', validation.errors.join('; '));
+            return null;
+        }
+
+        return { cycleDays, anchorDate, anchorDay };
+    }
+
+    /**
+     * School year from frontmatter first_day/last_day and term lines in the body, written like
+     * holiday ranges: "- 2025-08-27 to 2026-01-16 Fall Semester". Without first_day/last_day
+     * the year runs from the first term's start to the last term's end.
+     */
+    parseSchoolYear(content: string, filePath = 'School Year.md'): SchoolYear | null {
+        const frontmatter = new FrontmatterReader(content, filePath);
+        const terms: SchoolTerm[] = [];
+
+        for (const line of content.split('\n')) {
+            const match = line.match(/^- (\d{4}-\d{2}-\d{2})\s+(?:to|through|-|–|—)\s+(\d{4}-\d{2}-\d{2})\s*[-–—:]?\s*(.+)$/);
+            if (!match) continue;
+
+            const [, startDate, endDate, name] = match;
+            if (endDate < startDate) {
+                frontmatter.addError('terms', `"${name.trim()}" ends before it starts`);
+                continue;
+            }
+            terms.push({ name: name.trim(), startDate, endDate });
+        }
+        terms.sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+        for (let i = 1; i < terms.length; i++) {
+            if (terms[i].startDate <= terms[i - 1].endDate) {
+                frontmatter.addError('terms', `"${terms[i].name}" overlaps "${terms[i - 1].name}"`);
+            }
+        }
+
+        const firstDay = frontmatter.getDate('first_day') || (terms.length > 0 ? terms[0].startDate : undefined);
+        const lastDay = frontmatter.getDate('last_day') || (terms.length > 0 ? terms[terms.length - 1].endDate : undefined);
+        if (!firstDay || !lastDay) {
+            frontmatter.addError('first_day', 'and last_day are missing (or list at least one term)');
+        } else if (lastDay < firstDay) {
+            frontmatter.addError('last_day', `${lastDay} is before first_day ${firstDay}`);
+        }
+
+        const validation = frontmatter.getValidation();
+        if (!validation.valid || !firstDay || !lastDay) {
+            console.error('Invalid school year:', validation.errors.join('; '));
+            return null;
+        }
+
+        return { firstDay, lastDay, terms };
+    }
+
     // Extract holiday dates from holiday file content
     parseHolidayDates(content: string): string[] {
-        const dates: string[] = [];
+        return this.parseHolidayEntries(content).map(entry => entry.date);
+    }
+
+    /**
+     * Parse holiday lines: "- 2025-11-27", "- 2025-11-27 Thanksgiving" or
+     * "- 2025-12-22 to 2026-01-02 Winter Break". Ranges expand to their weekdays.
+     */
+    parseHolidayEntries(content: string): HolidayEntry[] {
+        const entries: HolidayEntry[] = [];
         const lines = content.split('\n');
         
         for (const line of lines) {
-            const match = line.match(/^- (\d{4}-\d{2}-\d{2})/);
-            if (match) {
-                dates.push(match[1]);
+            const match = line.match(/^- (\d{4}-\d{2}-\d{2})(?:\s+(?:to|through|-|–|—)\s+(\d{4}-\d{2}-\d{2}))?(.*)$/);
+            if (!match) continue;
+
+            const [, startDate, endDate, rest] = match;
+            // %%...%% is an Obsidian comment, e.g. the marker on lines written by the calendar import
+            const label = rest.replace(/%%.*?%%/g, '').trim().replace(/^[-–—:]\s*/, '').replace(/^\((.*)\)$/, '$1').trim();
+
+            if (!endDate) {
+                entries.push({ date: startDate, label });
+                continue;
+            }
+
+            if (endDate < startDate) {
+                console.warn(`Ignoring holiday range that ends before it starts: ${line}`);
+                continue;
+            }
+
+            const rangeId = `${startDate}..${endDate}`;
+            for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+                const day = parseDateString(date).getDay();
+                if (day >= 1 && day <= 5) {
+                    entries.push({ date, label, rangeId });
+                }
             }
         }
         
-        return dates;
+        return entries;
     }
 
-    // Parse special schedule dates
-    parseSpecialSchedules(content: string): { early_dismissal: string[]; testing_day: string[] } {
-        const schedules = { early_dismissal: [] as string[], testing_day: [] as string[] };
+    // Parse special schedule dates - every "## Name" section with a date list defines a schedule type.
+    // Regular schedule headings and sections without dates (e.g. "## Notes") are skipped.
+    parseSpecialSchedules(content: string): SpecialSchedules {
+        const schedules: SpecialSchedules = [];
         const lines = content.split('\n');
-        let currentType: 'early_dismissal' | 'testing_day' | null = null;
-        
-        for (const line of lines) {
+        let currentHeading: { slug: string; name: string } | null = null;
+
+        // Skip frontmatter so its closing --- isn't taken for the separator
+        let bodyStart = 0;
+        if (lines[0] === '---') {
+            const frontmatterEnd = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+            if (frontmatterEnd > 0) bodyStart = frontmatterEnd + 1;
+        }
+
+        for (const line of lines.slice(bodyStart)) {
             if (line.trim() === '---') {
                 break; // Stop at separator
             }
             
             // Check for section headers - ONLY look at lines that start with ##
-            if (line.startsWith('##') && line.toLowerCase().includes('early dismissal')) {
-                currentType = 'early_dismissal';
-                continue;
-            } else if (line.startsWith('##') && line.toLowerCase().includes('testing day')) {
-                currentType = 'testing_day';
+            const headingMatch = line.match(/^##\s+(.+)$/);
+            if (headingMatch) {
+                const slug = this.toScheduleSlug(headingMatch[1]);
+                currentHeading = slug && !this.isRegularScheduleSlug(slug)
+                    ? { slug, name: headingMatch[1].trim() }
+                    : null;
                 continue;
             }
-            
-            // Extract dates when we have a current type
-            if (currentType && line.match(/^- (\d{4}-\d{2}-\d{2})/)) {
-                const match = line.match(/^- (\d{4}-\d{2}-\d{2})/);
-                if (match) {
-                    schedules[currentType].push(match[1]);
+
+            // The type is created at its first date, so headings without a date list never become one
+            const match = line.match(/^- (\d{4}-\d{2}-\d{2})/);
+            if (currentHeading && match) {
+                const { slug, name } = currentHeading;
+                let currentType = schedules.find(schedule => schedule.slug === slug);
+                if (!currentType) {
+                    const builtIn = BUILT_IN_SCHEDULE_TYPES.find(type => type.slug === slug);
+                    currentType = { slug, name: builtIn ? builtIn.name : name, dates: [] };
+                    schedules.push(currentType);
                 }
+                currentType.dates.push(match[1]);
             }
         }
         
         return schedules;
     }
 
-    // Update frontmatter classes list - COPIED FROM WORKING SCRIPT
-    updateClassesList(content: string, className: string, action: 'add' | 'remove'): string {
-        const classesMatch = content.match(FRONTMATTER_CLASSES_REGEX);
-        
-        if (!classesMatch) {
-            // No classes array found, add one
-            const frontmatterEnd = content.indexOf('---', 3);
-            if (frontmatterEnd === -1) return content;
-            
-            const newClasses = action === 'add' ? [`"${className}"`] : [];
-            const newFrontmatter = content.slice(0, frontmatterEnd) + 
-                `classes: [${newClasses.join(', ')}]\n` + 
-                content.slice(frontmatterEnd);
-            return newFrontmatter;
-        }
-        
-        const classesStr = classesMatch[1];
-        let classList: string[] = [];
-        
-        if (classesStr.trim()) {
-            classList = classesStr
-                .split(',')
-                .map(c => c.trim().replace(/['"]/g, ''))
-                .filter(c => c.length > 0);
+    // "Delayed Opening" -> "delayed_opening"; headings naming a built-in type keep its slug
+    toScheduleSlug(name: string): string {
+        const lower = name.toLowerCase();
+        const builtIn = BUILT_IN_SCHEDULE_TYPES.find(type => lower.includes(type.name.toLowerCase()));
+        if (builtIn) {
+            return builtIn.slug;
         }
-        
+        return lower.replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    }
+
+    // "Regular", "Regular Schedule", "Regular Day" etc. all name the regular schedule
+    isRegularScheduleSlug(slug: string): boolean {
+        return slug.startsWith('regular');
+    }
+
+    // Add or remove a class in a daily plan's classes list, keeping the list sorted and in the file's list style
+    updateClassesList(content: string, className: string, action: 'add' | 'remove'): string {
+        let classList = this.parseFrontmatterList(content, 'classes');
+
         if (action === 'add' && !classList.includes(className)) {
             classList.push(className);
         } else if (action === 'remove') {
             classList = classList.filter(c => c !== className);
         }
-        
+
         classList.sort();
-        
-        const newClassesStr = classList.map(c => `"${c}"`).join(', ');
-        return content.replace(
-            FRONTMATTER_CLASSES_REGEX,
-            `classes: [${newClassesStr}]`
-        );
+        return this.setFrontmatterList(content, 'classes', classList);
+    }
+
+    // Accept "monday", "Mon" or "Monday" and return the canonical weekday name
+    normalizeDayName(value: string): string {
+        const trimmed = value.trim().toLowerCase();
+        const match = Object.keys(DAY_MAP).find(day => {
+            const lower = day.toLowerCase();
+            return lower === trimmed || (trimmed.length >= 3 && lower.startsWith(trimmed));
+        });
+        return match || value.trim();
+    }
+
+    // Read a frontmatter list written either inline (key: [a, b]) or as a YAML block list
+    parseFrontmatterList(content: string, key: string): string[] {
+        return new FrontmatterReader(content, '').getList(key);
+    }
+
+    // Add or remove a value in a frontmatter list, keeping whichever list style the file already uses
+    updateFrontmatterList(content: string, key: string, value: string, action: 'add' | 'remove'): string {
+        const location = this.findFrontmatterList(content, key);
+        const lines = content.split('\n');
+
+        if (!location) {
+            if (action === 'remove') return content;
+
+            const frontmatterEnd = lines[0] === '---'
+                ? lines.findIndex((line, index) => index > 0 && line.trim() === '---')
+                : -1;
+            if (frontmatterEnd === -1) return content;
+
+            lines.splice(frontmatterEnd, 0, `${key}: ["${value}"]`);
+            return lines.join('\n');
+        }
+
+        const hasValue = location.items.includes(value);
+        if ((action === 'add' && hasValue) || (action === 'remove' && !hasValue)) {
+            return content;
+        }
+
+        if (location.style === 'inline') {
+            const items = action === 'add'
+                ? [...location.items, value]
+                : location.items.filter(item => item !== value);
+            lines[location.keyLine] = `${key}: [${items.map(item => `"${item}"`).join(', ')}]`;
+            return lines.join('\n');
+        }
+
+        if (action === 'add') {
+            const insertAt = location.itemLines.length > 0
+                ? location.itemLines[location.itemLines.length - 1] + 1
+                : location.keyLine + 1;
+            lines.splice(insertAt, 0, `${location.indent}- "${value}"`);
+        } else {
+            const removeIndex = location.itemLines[location.items.indexOf(value)];
+            lines.splice(removeIndex, 1);
+        }
+        return lines.join('\n');
+    }
+
+    // Replace a frontmatter list with the given values, keeping whichever list style the file already uses
+    setFrontmatterList(content: string, key: string, values: string[]): string {
+        const location = this.findFrontmatterList(content, key);
+        const lines = content.split('\n');
+        const inlineLine = `${key}: [${values.map(value => `"${value}"`).join(', ')}]`;
+
+        if (!location) {
+            const frontmatterEnd = lines[0] === '---'
+                ? lines.findIndex((line, index) => index > 0 && line.trim() === '---')
+                : -1;
+            if (frontmatterEnd === -1) return content;
+
+            lines.splice(frontmatterEnd, 0, inlineLine);
+            return lines.join('\n');
+        }
+
+        const itemLines = location.style === 'block'
+            ? values.map(value => `${location.indent}- "${value}"`)
+            : [];
+        const keyLine = itemLines.length > 0 ? `${key}:` : inlineLine;
+        lines.splice(location.keyLine, 1 + location.itemLines.length, keyLine, ...itemLines);
+        return lines.join('\n');
+    }
+
+    private findFrontmatterList(content: string, key: string): {
+        style: 'inline' | 'block';
+        keyLine: number;
+        itemLines: number[];
+        items: string[];
+        indent: string;
+    } | null {
+        const lines = content.split('\n');
+        if (lines[0] !== '---') return null;
+
+        const frontmatterEnd = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+        if (frontmatterEnd === -1) return null;
+
+        const cleanItem = (item: string) => item.trim().replace(/^['"]|['"]$/g, '');
+        const keyPattern = new RegExp(`^${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}:\\s*(.*)$`);
+
+        for (let i = 1; i < frontmatterEnd; i++) {
+            const keyMatch = lines[i].match(keyPattern);
+            if (!keyMatch) continue;
+
+            const inlineValue = keyMatch[1].trim();
+            const inlineMatch = inlineValue.match(/^\[(.*)\]$/);
+            if (inlineMatch) {
+                return {
+                    style: 'inline',
+                    keyLine: i,
+                    itemLines: [],
+                    items: inlineMatch[1].split(',').map(cleanItem).filter(item => item.length > 0),
+                    indent: ''
+                };
+            }
+
+            // Block list: "- item" lines directly under the key
+            const items: string[] = [];
+            const itemLines: number[] = [];
+            let indent = '  ';
+            for (let j = i + 1; j < frontmatterEnd; j++) {
+                const itemMatch = lines[j].match(/^(\s*)-\s+(.*)$/);
+                if (!itemMatch) break;
+                indent = itemMatch[1];
+                items.push(cleanItem(itemMatch[2]));
+                itemLines.push(j);
+            }
+
+            // A scalar value is treated as a single-item list
+            if (items.length === 0 && inlineValue) {
+                return { style: 'inline', keyLine: i, itemLines: [], items: [cleanItem(inlineValue)], indent: '' };
+            }
+
+            return { style: 'block', keyLine: i, itemLines, items, indent };
+        }
+
+        return null;
     }
 
     // Validation methods
@@ -412,21 +1172,8 @@ export class ParserService {
         const errors: string[] = [];
         const warnings: string[] = [];
         
-        if (!TIME_REGEX.test(timeString)) {
-            errors.push("Time must be in H:MM or HH:MM format");
-        } else {
-            const match = timeString.match(TIME_REGEX);
-            if (match) {
-                const hours = parseInt(match[1]);
-                const minutes = parseInt(match[2]);
-                
-                if (hours < 0 || hours > 23) {
-                    errors.push("Hours must be between 0 and 23");
-                }
-                if (minutes < 0 || minutes > 59) {
-                    errors.push("Minutes must be between 0 and 59");
-                }
-            }
+        if (!this.parseTime(timeString)) {
+            errors.push("Time must look like 9:30, 9:30 AM or 14:30");
         }
         
         return {
@@ -1,15 +1,39 @@
 import { FileService } from './FileService';
 import { ParserService } from './ParserService';
-import { SpecialSchedules, HolidayDates } from '../types';
+import {
+    SpecialSchedules,
+    SpecialScheduleType,
+    HolidayDates,
+    HolidayEntry,
+    ClassSchedule,
+    DailyPlan,
+    TimeSlot,
+    WeeklyViewData,
+    RotationCalendar,
+    SchoolYear,
+    SchoolTerm,
+    MeetingPattern,
+    DAY_MAP,
+    DayOfWeek
+} from '../types';
+import { addDays, getWeekdayName, parseDateString } from '../utils/dateUtils';
+
+// A single weekday, a list of weekdays, or a full weekday/cycle-day pattern such as a ClassSchedule
+type MeetingDays = string | string[] | MeetingPattern;
 
 export class ScheduleService {
     private fileService: FileService;
     private parserService: ParserService;
-    private holidayCache: HolidayDates | null = null;
+    private holidayCache: HolidayEntry[] | null = null;
     private specialScheduleCache: SpecialSchedules | null = null;
     private lastHolidayLoad = 0;
     private lastSpecialLoad = 0;
+    private rotationCache: RotationCalendar | null = null;
+    private lastRotationLoad = 0;
+    private schoolYearCache: SchoolYear | null = null;
+    private lastSchoolYearLoad = 0;
     private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+    private readonly MAX_SEARCH_DAYS = 366;
 
     constructor(fileService: FileService, parserService: ParserService) {
         this.fileService = fileService;
@@ -17,6 +41,14 @@ export class ScheduleService {
     }
 
     async getHolidayDates(): Promise<HolidayDates> {
+        const holidays = await this.getHolidays();
+        return holidays.map(holiday => holiday.date);
+    }
+
+    /**
+     * Every holiday with its label and, for days expanded from a range, the range it belongs to
+     */
+    async getHolidays(): Promise<HolidayEntry[]> {
         // Use cache if recent
         const now = Date.now();
         if (this.holidayCache && (now - this.lastHolidayLoad) < this.CACHE_TTL) {
@@ -32,19 +64,51 @@ export class ScheduleService {
                 return [];
             }
 
-            const dates = this.parserService.parseHolidayDates(content);
+            const holidays = this.parserService.parseHolidayEntries(content);
             
             // Cache the result
-            this.holidayCache = dates;
+            this.holidayCache = holidays;
             this.lastHolidayLoad = now;
             
-            return dates;
+            return holidays;
         } catch (error) {
             console.error('Error loading holiday dates:', error);
             return [];
         }
     }
 
+    // Holidays strictly between two dates, i.e. the days a class skipped going from one meeting to the next
+    async getHolidaysBetween(fromDate: string, toDate: string): Promise<HolidayEntry[]> {
+        const holidays = await this.getHolidays();
+        return holidays
+            .filter(holiday => holiday.date > fromDate && holiday.date < toDate)
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    /**
+     * Human-readable list of holidays, one item per label or range,
+     * e.g. "Thanksgiving (2025-11-27), Winter Break (2025-12-22 to 2026-01-02)"
+     */
+    describeHolidays(holidays: HolidayEntry[]): string {
+        const groups = new Map<string, { label: string; dates: string[] }>();
+
+        for (const holiday of holidays) {
+            const key = holiday.rangeId || holiday.date;
+            const group = groups.get(key);
+            if (group) {
+                if (!group.dates.includes(holiday.date)) group.dates.push(holiday.date);
+            } else {
+                groups.set(key, { label: holiday.label, dates: [holiday.date] });
+            }
+        }
+
+        return Array.from(groups.values()).map(group => {
+            const dates = group.dates.sort();
+            const span = dates.length > 1 ? `${dates[0]} to ${dates[dates.length - 1]}` : dates[0];
+            return group.label ? `${group.label} (${span})` : `Holiday (${span})`;
+        }).join(', ');
+    }
+
     async getSpecialSchedules(): Promise<SpecialSchedules> {
         // Use cache if recent
         const now = Date.now();
@@ -58,7 +122,7 @@ export class ScheduleService {
             
             if (!content) {
                 console.warn('Special Schedules.md file not found');
-                return { early_dismissal: [], testing_day: [] };
+                return [];
             }
 
             const schedules = this.parserService.parseSpecialSchedules(content);
@@ -70,7 +134,7 @@ export class ScheduleService {
             return schedules;
         } catch (error) {
             console.error('Error loading special schedules:', error);
-            return { early_dismissal: [], testing_day: [] };
+            return [];
         }
     }
 
@@ -78,91 +142,259 @@ export class ScheduleService {
         return this.getHolidayDates().then(holidays => holidays.includes(date));
     }
 
-    async getScheduleType(date: string): Promise<'regular' | 'early_dismissal' | 'testing_day'> {
+    // 'regular', or the slug of the special schedule type listing this date
+    async getScheduleType(date: string): Promise<string> {
         const schedules = await this.getSpecialSchedules();
+        const schedule = this.findSpecialSchedule(date, schedules);
+        return schedule ? schedule.slug : 'regular';
+    }
+
+    findSpecialSchedule(date: string, schedules: SpecialSchedules): SpecialScheduleType | null {
+        return schedules.find(schedule => schedule.dates.includes(date)) || null;
+    }
+
+    /**
+     * Next meeting after fromDate on any of the class's weekdays or cycle days, skipping holidays
+     * and days outside the school year
+     */
+    async getNextSchoolDay(fromDate: string, meeting: MeetingDays): Promise<string> {
+        const nextDate = await this.findNextSchoolDay(fromDate, meeting);
+        if (!nextDate) {
+            const schoolYear = await this.getSchoolYear();
+            throw new Error(`No ${this.describeMeetingDays(meeting)} left after ${fromDate} before the school year ends on ${schoolYear?.lastDay}`);
+        }
+        return nextDate;
+    }
+
+    // Like getNextSchoolDay, but null when the school year ends first
+    async findNextSchoolDay(fromDate: string, meeting: MeetingDays): Promise<string | null> {
+        const isMeeting = await this.createMeetingMatcher(meeting);
+        const schoolYear = await this.getSchoolYear();
+
+        let currentDate = addDays(fromDate, 1);
+        for (let attempts = 0; attempts < this.MAX_SEARCH_DAYS; attempts++) {
+            if (schoolYear && currentDate > schoolYear.lastDay) {
+                return null;
+            }
+            if (isMeeting(currentDate)) {
+                return currentDate;
+            }
+            currentDate = addDays(currentDate, 1);
+        }
+
+        throw new Error(`Could not find a non-holiday ${this.describeMeetingDays(meeting)} after ${fromDate}`);
+    }
+
+    /**
+     * Meeting dates from startDate (inclusive) following the class's weekday pattern or rotation.
+     * Stops at the end of the school year, so fewer than duration dates come back when the
+     * lessons don't all fit.
+     */
+    async calculateClassDates(startDate: string, meeting: MeetingDays, duration: number): Promise<string[]> {
+        const isMeeting = await this.createMeetingMatcher(meeting);
+        const schoolYear = await this.getSchoolYear();
+        const dates: string[] = [];
+
+        let currentDate = startDate;
+        let searchedDays = 0;
+
+        // Generate dates, skipping holidays
+        while (dates.length < duration) {
+            if (schoolYear && currentDate > schoolYear.lastDay) {
+                break;
+            }
+            if (isMeeting(currentDate)) {
+                dates.push(currentDate);
+                searchedDays = 0;
+            } else if (++searchedDays > this.MAX_SEARCH_DAYS) {
+                throw new Error(`Could not find a non-holiday ${this.describeMeetingDays(meeting)} after ${currentDate}`);
+            }
+            currentDate = addDays(currentDate, 1);
+        }
         
-        if (schedules.early_dismissal.includes(date)) {
-            return 'early_dismissal';
+        return dates;
+    }
+
+    async getRotationCalendar(): Promise<RotationCalendar | null> {
+        // Use cache if recent
+        const now = Date.now();
+        if (this.lastRotationLoad && (now - this.lastRotationLoad) < this.CACHE_TTL) {
+            return this.rotationCache;
         }
-        if (schedules.testing_day.includes(date)) {
-            return 'testing_day';
+
+        try {
+            // The rotation calendar is optional - schools without one schedule by weekday
+            const rotationPath = this.fileService.getFullPath('Rotation Calendar.md');
+            const content = await this.fileService.readFile(rotationPath);
+
+            this.rotationCache = content ? this.parserService.parseRotationCalendar(content) : null;
+            this.lastRotationLoad = now;
+
+            return this.rotationCache;
+        } catch (error) {
+            console.error('Error loading rotation calendar:', error);
+            return null;
         }
-        return 'regular';
     }
 
-    async getNextSchoolDay(fromDate: string, dayOfWeek: string): Promise<string> {
-        const dayMap = {
-            "Sunday": 0, "Monday": 1, "Tuesday": 2, "Wednesday": 3, 
-            "Thursday": 4, "Friday": 5, "Saturday": 6
-        };
+    async getSchoolYear(): Promise<SchoolYear | null> {
+        // Use cache if recent
+        const now = Date.now();
+        if (this.lastSchoolYearLoad && (now - this.lastSchoolYearLoad) < this.CACHE_TTL) {
+            return this.schoolYearCache;
+        }
+
+        try {
+            // Optional as well - without it meetings are not limited to a school year
+            const schoolYearPath = this.fileService.getFullPath('School Year.md');
+            const content = await this.fileService.readFile(schoolYearPath);
+
+            this.schoolYearCache = content ? this.parserService.parseSchoolYear(content, schoolYearPath) : null;
+            this.lastSchoolYearLoad = now;
+
+            return this.schoolYearCache;
+        } catch (error) {
+            console.error('Error loading school year:', error);
+            return null;
+        }
+    }
 
-        const targetDay = dayMap[dayOfWeek as keyof typeof dayMap];
-        if (targetDay === undefined) {
-            throw new Error(`Invalid day of week: ${dayOfWeek}`);
+    // The term a date falls in, or null between terms and outside the year
+    findTerm(date: string, schoolYear: SchoolYear | null): SchoolTerm | null {
+        if (!schoolYear) {
+            return null;
         }
+        return schoolYear.terms.find(term => term.startDate <= date && date <= term.endDate) || null;
+    }
 
-        const [year, month, day] = fromDate.split('-').map(Number);
-        let currentDate = new Date(year, month - 1, day);
+    /**
+     * Cycle day for a date, or null when there is no rotation or the date is not a school day
+     */
+    async getCycleDay(date: string): Promise<string | null> {
+        const rotation = await this.getRotationCalendar();
+        if (!rotation) {
+            return null;
+        }
         const holidays = await this.getHolidayDates();
+        return this.createCycleDayLookup(rotation, holidays)(date);
+    }
 
-        // Move to the next occurrence of the target day
-        currentDate.setDate(currentDate.getDate() + 7);
+    // Predicate for the dates a class meets on, with holidays and days outside the school year already excluded
+    private async createMeetingMatcher(meeting: MeetingDays): Promise<(date: string) => boolean> {
+        const pattern = this.toMeetingPattern(meeting);
+        const holidays = await this.getHolidayDates();
+        const schoolYear = await this.getSchoolYear();
+        const inSchoolYear = (date: string) => !schoolYear || (date >= schoolYear.firstDay && date <= schoolYear.lastDay);
+        const cycleDays = pattern.cycleDays || [];
 
-        // Skip holidays by moving forward one week at a time
-        let attempts = 0;
-        while (holidays.includes(currentDate.toISOString().split('T')[0]) && attempts < 10) {
-            currentDate.setDate(currentDate.getDate() + 7);
-            attempts++;
-        }
+        if (cycleDays.length > 0) {
+            const rotation = await this.getRotationCalendar();
+            if (!rotation) {
+                throw new Error('Class uses cycle_days but Rotation Calendar.md is missing or invalid');
+            }
+            const unknownDays = cycleDays.filter(day => !rotation.cycleDays.includes(day));
+            if (unknownDays.length > 0) {
+                throw new Error(`Unknown cycle days: ${unknownDays.join(', ')} (rotation uses ${rotation.cycleDays.join(', ')})`);
+            }
 
-        if (attempts >= 10) {
-            console.warn(`Could not find non-holiday ${dayOfWeek} after ${fromDate}`);
+            const getCycleDay = this.createCycleDayLookup(rotation, holidays);
+            return date => {
+                const cycleDay = getCycleDay(date);
+                return inSchoolYear(date) && cycleDay !== null && cycleDays.includes(cycleDay);
+            };
         }
 
-        return currentDate.toISOString().split('T')[0];
+        const meetingDays = this.resolveMeetingDays(pattern.daysOfWeek);
+        return date => inSchoolYear(date) && meetingDays.includes(parseDateString(date).getDay()) && !holidays.includes(date);
     }
 
-    async calculateClassDates(startDate: string, dayOfWeek: string, duration: number): Promise<string[]> {
-        const dates: string[] = [];
-        const dayMap = {
-            "Sunday": 0, "Monday": 1, "Tuesday": 2, "Wednesday": 3, 
-            "Thursday": 4, "Friday": 5, "Saturday": 6
+    /**
+     * Map dates to cycle days. The rotation advances once per school day counted from the anchor;
+     * the last looked-up date is remembered so sequential lookups only walk the gap.
+     */
+    private createCycleDayLookup(rotation: RotationCalendar, holidays: HolidayDates): (date: string) => string | null {
+        const anchorIndex = rotation.cycleDays.indexOf(rotation.anchorDay);
+        const cycleLength = rotation.cycleDays.length;
+        let knownDate = rotation.anchorDate;
+        let knownOffset = 0;
+
+        return date => {
+            if (!this.isSchoolDay(date, holidays)) {
+                return null;
+            }
+
+            const offset = date >= knownDate
+                ? knownOffset + this.countSchoolDays(knownDate, date, holidays)
+                : knownOffset - this.countSchoolDays(date, knownDate, holidays);
+            knownDate = date;
+            knownOffset = offset;
+
+            return rotation.cycleDays[((anchorIndex + offset) % cycleLength + cycleLength) % cycleLength];
         };
+    }
 
-        const targetDay = dayMap[dayOfWeek as keyof typeof dayMap];
-        if (targetDay === undefined) {
-            throw new Error(`Invalid day of week: ${dayOfWeek}`);
+    // School days in [fromDate, toDate)
+    private countSchoolDays(fromDate: string, toDate: string, holidays: HolidayDates): number {
+        let count = 0;
+        for (let date = fromDate; date < toDate; date = addDays(date, 1)) {
+            if (this.isSchoolDay(date, holidays)) {
+                count++;
+            }
         }
+        return count;
+    }
 
-        const [year, month, day] = startDate.split('-').map(Number);
-        let currentDate = new Date(year, month - 1, day);
-        const currentDay = currentDate.getDay();
-        
-        // Adjust to correct day of week if needed
-        if (currentDay !== targetDay) {
-            const daysToAdd = (targetDay - currentDay + 7) % 7;
-            currentDate.setDate(currentDate.getDate() + daysToAdd);
+    private isSchoolDay(date: string, holidays: HolidayDates): boolean {
+        const day = parseDateString(date).getDay();
+        return day >= 1 && day <= 5 && !holidays.includes(date);
+    }
+
+    private toMeetingPattern(meeting: MeetingDays): MeetingPattern {
+        if (typeof meeting === 'string') {
+            return { daysOfWeek: [meeting] };
         }
-        
-        const holidays = await this.getHolidayDates();
-        
-        // Generate dates, skipping holidays
-        while (dates.length < duration) {
-            const dateString = currentDate.toISOString().split('T')[0];
-            
-            if (!holidays.includes(dateString)) {
-                dates.push(dateString);
+        if (Array.isArray(meeting)) {
+            return { daysOfWeek: meeting };
+        }
+        return meeting;
+    }
+
+    // Convert weekday names to day indexes, rejecting anything that isn't a weekday
+    private resolveMeetingDays(names: string[]): number[] {
+        if (names.length === 0) {
+            throw new Error('No day of week or cycle day given');
+        }
+
+        return names.map(name => {
+            const dayIndex = DAY_MAP[name as DayOfWeek];
+            if (dayIndex === undefined) {
+                throw new Error(`Invalid day of week: ${name}`);
             }
-            
-            currentDate.setDate(currentDate.getDate() + 7); // Next week
+            return dayIndex;
+        });
+    }
+
+    private describeMeetingDays(meeting: MeetingDays): string {
+        const pattern = this.toMeetingPattern(meeting);
+        if (pattern.cycleDays && pattern.cycleDays.length > 0) {
+            return `cycle day ${pattern.cycleDays.join('/')}`;
         }
-        
-        return dates;
+        return pattern.daysOfWeek.join('/');
+    }
+
+    async getClassSchedule(className: string): Promise<ClassSchedule | null> {
+        const classPath = this.fileService.getFullPath(`Classes/${className}.md`);
+        const content = await this.fileService.readFile(classPath);
+        if (!content) {
+            return null;
+        }
+        return this.parserService.parseClassSchedule(content, classPath);
     }
 
     async getTimeForScheduleType(
         className: string, 
-        scheduleType: 'regular' | 'early_dismissal' | 'testing_day'
+        scheduleType: string,
+        date?: string
     ): Promise<{ time: string; note: string; needsReview: boolean }> {
         try {
             const classPath = this.fileService.getFullPath(`Classes/${className}.md`);
@@ -185,45 +417,9 @@ export class ScheduleService {
                 };
             }
 
-            switch (scheduleType) {
-                case 'early_dismissal':
-                    if (classSchedule.earlyDismissalTime && classSchedule.earlyDismissalTime !== "TBD") {
-                        return {
-                            time: classSchedule.earlyDismissalTime,
-                            note: ' (Early Dismissal)',
-                            needsReview: false
-                        };
-                    } else {
-                        return {
-                            time: classSchedule.regularTime,
-                            note: ' (⚠️ Early Dismissal - check time manually)',
-                            needsReview: true
-                        };
-                    }
-
-                case 'testing_day':
-                    if (classSchedule.testingDayTime && classSchedule.testingDayTime !== classSchedule.regularTime) {
-                        return {
-                            time: classSchedule.testingDayTime,
-                            note: ' (Testing Day)',
-                            needsReview: false
-                        };
-                    } else {
-                        return {
-                            time: classSchedule.regularTime,
-                            note: ' (⚠️ Testing Day - update testing_day_time when known)',
-                            needsReview: true
-                        };
-                    }
-
-                case 'regular':
-                default:
-                    return {
-                        time: classSchedule.regularTime,
-                        note: '',
-                        needsReview: false
-                    };
-            }
+            const schedules = await this.getSpecialSchedules();
+            const specialSchedule = schedules.find(schedule => schedule.slug === scheduleType) || null;
+            return this.resolveClassTime(classSchedule, specialSchedule, date);
         } catch (error) {
             console.error(`Error getting time for ${className} on ${scheduleType}:`, error);
             return { 
@@ -234,6 +430,82 @@ export class ScheduleService {
         }
     }
 
+    /**
+     * Time and note suffix for a class on a day with the given special schedule (null for a regular day).
+     * Falls back to the regular time with a warning when the class has no usable <slug>_time.
+     * The built-in types keep their original rules: a testing_day_time equal to the regular time
+     * still needs review, and each has its own warning note.
+     */
+    resolveClassTime(
+        schedule: { regularTime: string; weekdayTimes?: { [day: string]: string }; specialTimes: { [slug: string]: string } },
+        specialSchedule: SpecialScheduleType | null,
+        date?: string
+    ): { time: string; note: string; needsReview: boolean } {
+        const regularTime = date ? this.getRegularTime(schedule, date) : schedule.regularTime;
+        if (!specialSchedule) {
+            return { time: regularTime, note: '', needsReview: false };
+        }
+
+        const specialTime = schedule.specialTimes[specialSchedule.slug];
+        const hasSpecialTime = !!specialTime && specialTime.trim() !== '' && specialTime !== 'TBD';
+
+        switch (specialSchedule.slug) {
+            case 'early_dismissal':
+                return hasSpecialTime
+                    ? { time: specialTime, note: ' (Early Dismissal)', needsReview: false }
+                    : { time: regularTime, note: ' (⚠️ Early Dismissal - check time manually)', needsReview: true };
+
+            case 'testing_day':
+                return hasSpecialTime && specialTime !== regularTime
+                    ? { time: specialTime, note: ' (Testing Day)', needsReview: false }
+                    : { time: regularTime, note: ' (⚠️ Testing Day - update testing_day_time when known)', needsReview: true };
+        }
+
+        if (hasSpecialTime) {
+            return { time: specialTime, note: ` (${specialSchedule.name})`, needsReview: false };
+        }
+
+        return {
+            time: regularTime,
+            note: ` (⚠️ ${specialSchedule.name} - using regular time, set ${specialSchedule.slug}_time when known)`,
+            needsReview: true
+        };
+    }
+
+    /**
+     * Length in minutes of each class on a date, using <slug>_duration_minutes on special schedule days.
+     * Classes without a duration_minutes field are left out.
+     */
+    async getClassDurations(classNames: string[], date: string): Promise<{ [className: string]: number }> {
+        const schedules = await this.getSpecialSchedules();
+        const specialSchedule = this.findSpecialSchedule(date, schedules);
+        const durations: { [className: string]: number } = {};
+
+        for (const className of classNames) {
+            const classSchedule = await this.getClassSchedule(className);
+            const duration = classSchedule ? this.resolveClassDuration(classSchedule, specialSchedule) : undefined;
+            if (duration) {
+                durations[className] = duration;
+            }
+        }
+
+        return durations;
+    }
+
+    resolveClassDuration(
+        schedule: { durationMinutes?: number; specialDurations: { [slug: string]: number } },
+        specialSchedule: SpecialScheduleType | null
+    ): number | undefined {
+        const override = specialSchedule ? schedule.specialDurations[specialSchedule.slug] : undefined;
+        return override || schedule.durationMinutes;
+    }
+
+    // Regular time for a date, honouring per-weekday overrides such as wednesday_time
+    getRegularTime(schedule: { regularTime: string; weekdayTimes?: { [day: string]: string } }, date: string): string {
+        const override = schedule.weekdayTimes ? schedule.weekdayTimes[getWeekdayName(date)] : undefined;
+        return override || schedule.regularTime;
+    }
+
     // Check if dates span any holidays or special schedules
     async checkDateRangeForScheduleIssues(dates: string[]): Promise<{
         holidayConflicts: string[];
@@ -246,23 +518,61 @@ export class ScheduleService {
         const specialScheduleConflicts: Array<{ date: string; type: string }> = [];
         
         for (const date of dates) {
-            if (specialSchedules.early_dismissal.includes(date)) {
-                specialScheduleConflicts.push({ date, type: 'early_dismissal' });
-            }
-            if (specialSchedules.testing_day.includes(date)) {
-                specialScheduleConflicts.push({ date, type: 'testing_day' });
+            for (const schedule of specialSchedules) {
+                if (schedule.dates.includes(date)) {
+                    specialScheduleConflicts.push({ date, type: schedule.slug });
+                }
             }
         }
         
         return { holidayConflicts, specialScheduleConflicts };
     }
 
+    // Build the Monday-Friday view of existing daily plans for the week starting at weekStart
+    async getWeeklyViewData(weekStart: string): Promise<WeeklyViewData> {
+        const endDate = addDays(weekStart, 4);
+        const files = await this.fileService.getDailyPlans(weekStart, endDate);
+
+        const days: DailyPlan[] = [];
+        const slots: { [date: string]: TimeSlot[] } = {};
+        let totalClasses = 0;
+
+        for (const file of files) {
+            const content = await this.fileService.readFile(file.path, false);
+            if (content === null) continue;
+
+            const plan = this.parserService.parseDailyPlan(content, file.path);
+            if (!plan) continue;
+
+            const daySlots: TimeSlot[] = this.parserService.extractClassEntries(content)
+                .map(entry => ({
+                    time: entry.time,
+                    className: entry.className,
+                    unit: entry.unit,
+                    dayNumber: entry.dayNumber,
+                    totalDays: entry.totalDays,
+                    scheduleNote: entry.scheduleNote
+                }))
+                .sort((a, b) => this.parserService.parseTimeToMinutes(a.time) - this.parserService.parseTimeToMinutes(b.time));
+
+            days.push(plan);
+            slots[plan.date] = daySlots;
+            totalClasses += daySlots.length;
+        }
+
+        return { startDate: weekStart, endDate, days, slots, totalClasses };
+    }
+
     // Clear caches (useful for testing or when files are updated)
     clearCache(): void {
         this.holidayCache = null;
         this.specialScheduleCache = null;
         this.lastHolidayLoad = 0;
         this.lastSpecialLoad = 0;
+        this.rotationCache = null;
+        this.lastRotationLoad = 0;
+        this.schoolYearCache = null;
+        this.lastSchoolYearLoad = 0;
     }
 
     // Force reload from files
@@ -270,7 +580,9 @@ export class ScheduleService {
         this.clearCache();
         await Promise.all([
             this.getHolidayDates(),
-            this.getSpecialSchedules()
+            this.getSpecialSchedules(),
+            this.getRotationCalendar(),
+            this.getSchoolYear()
         ]);
     }
 }
\ No newline at end of file
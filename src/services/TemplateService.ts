@@ -0,0 +1,157 @@
+import { FileService } from './FileService';
+import { ParserService } from './ParserService';
+import { CLASS_HEADER_REGEX } from '../types';
+import { FrontmatterReader } from '../utils/frontmatter';
+import { getWeekdayName, parseDateString } from '../utils/dateUtils';
+
+export interface ClassEntryValues {
+    date: string;
+    className: string;
+    unitName: string;
+    dayNumber: number;
+    totalDays: number;
+    time: string;
+    scheduleNote: string; // e.g. " (Early Release)", or empty
+}
+
+// Used when no class entry template note is configured
+export const DEFAULT_CLASS_ENTRY_TEMPLATE = `## {{time}} - {{class}}{{scheduleNote}}
+
+**Unit:** [[{{unit}}]]  
+**Day:** {{day}} of {{total}}  
+**Lesson:** Day {{day}}
+
+### Quick Reference
+
+![[{{unit}}#Day {{day}}]]`;
+
+/**
+ * Builds new daily plans and class entries from template notes chosen in settings.
+ * Templates use {{placeholders}}; unknown placeholders are left alone so other
+ * template plugins can still fill them in.
+ */
+export class TemplateService {
+    private fileService: FileService;
+    private parserService: ParserService;
+    private dailyPlanTemplatePath = '';
+    private classEntryTemplatePath = '';
+
+    constructor(fileService: FileService, parserService: ParserService) {
+        this.fileService = fileService;
+        this.parserService = parserService;
+    }
+
+    // Vault paths of the template notes; empty strings use the built-in layouts
+    setTemplatePaths(dailyPlanTemplatePath: string, classEntryTemplatePath: string): void {
+        this.dailyPlanTemplatePath = dailyPlanTemplatePath.trim();
+        this.classEntryTemplatePath = classEntryTemplatePath.trim();
+    }
+
+    /**
+     * Content for a new daily plan. Placeholders: {{date}}, {{weekday}}, {{longDate}}, {{cycleDay}}.
+     * date, day_of_week and classes are added to the frontmatter if the template leaves them out.
+     */
+    async buildDailyPlan(date: string, cycleDay?: string | null): Promise<string> {
+        const template = await this.loadTemplate(this.dailyPlanTemplatePath);
+        if (template === null) {
+            return this.parserService.buildDailyPlanContent(date, cycleDay);
+        }
+
+        const weekday = getWeekdayName(date);
+        let content = this.fill(template, {
+            date,
+            weekday,
+            longDate: parseDateString(date).toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+            cycleDay: cycleDay || ''
+        });
+
+        if (FrontmatterReader.extractYaml(content) === null) {
+            content = `---\n---\n\n${content.replace(/^\n+/, '')}`;
+        }
+
+        const frontmatter = new FrontmatterReader(content, this.dailyPlanTemplatePath);
+        if (!frontmatter.has('date')) {
+            content = this.parserService.setFrontmatterValue(content, 'date', date);
+        }
+        if (!frontmatter.has('day_of_week')) {
+            content = this.parserService.setFrontmatterValue(content, 'day_of_week', weekday);
+        }
+        if (!frontmatter.has('classes')) {
+            content = this.parserService.setFrontmatterList(content, 'classes', []);
+        }
+        if (cycleDay && !frontmatter.has('cycle_day')) {
+            content = this.parserService.setFrontmatterValue(content, 'cycle_day', cycleDay);
+        }
+
+        return content.replace(/\s+$/, '');
+    }
+
+    /**
+     * A class entry in the shape insertClassByTimeFixed expects. Placeholders: {{class}}, {{unit}},
+     * {{day}}, {{total}}, {{time}}, {{scheduleNote}}, {{date}}, {{weekday}}.
+     * The "## time - class" heading and the Unit and Day lines the parser relies on are always present,
+     * whatever the template contains. Templates with a "---" line are rejected, since the parser would
+     * take it for the end of the entry.
+     */
+    async buildClassEntry(values: ClassEntryValues): Promise<string> {
+        const template = await this.loadTemplate(this.classEntryTemplatePath) ?? DEFAULT_CLASS_ENTRY_TEMPLATE;
+
+        const rendered = this.fill(this.stripFrontmatter(template), {
+            date: values.date,
+            weekday: getWeekdayName(values.date),
+            class: values.className,
+            unit: values.unitName,
+            day: String(values.dayNumber),
+            total: String(values.totalDays),
+            time: values.time,
+            scheduleNote: values.scheduleNote
+        });
+
+        const lines = rendered.split('\n');
+        if (lines.some(line => line.trim() === '---')) {
+            throw new Error(`Class entry template "${this.classEntryTemplatePath}" has a "---" line, which would end the entry early. Use *** for a horizontal rule`);
+        }
+
+        // The heading is generated so the entry always sorts and parses; dividers are added on insert
+        while (lines.length > 0 && lines[0].trim() === '') lines.shift();
+        if (lines.length > 0 && CLASS_HEADER_REGEX.test(lines[0])) lines.shift();
+
+        let body = lines.join('\n').replace(/\s+$/, '');
+        if (!/\*\*Day:\*\*\s*\d+\s*of\s*\d+/.test(body)) {
+            body = `**Day:** ${values.dayNumber} of ${values.totalDays}  \n${body}`;
+        }
+        if (!/\*\*Unit:\*\*\s*\[\[/.test(body)) {
+            body = `**Unit:** [[${values.unitName}]]  \n${body}`;
+        }
+        if (!body.startsWith('\n')) {
+            body = `\n${body}`;
+        }
+
+        return this.parserService.buildClassEntry(values.time, values.className, values.scheduleNote, body);
+    }
+
+    // Replace {{name}} placeholders, leaving any that aren't known
+    private fill(template: string, values: { [name: string]: string }): string {
+        return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+            Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder);
+    }
+
+    private stripFrontmatter(content: string): string {
+        if (FrontmatterReader.extractYaml(content) === null) return content;
+
+        const lines = content.split('\n');
+        const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+        return lines.slice(end + 1).join('\n');
+    }
+
+    // Template note content, or null when none is set or the note can't be read
+    private async loadTemplate(path: string): Promise<string | null> {
+        if (!path) return null;
+
+        const content = await this.fileService.readFile(path, false);
+        if (content === null) {
+            console.warn(`Template note "${path}" not found, using the built-in layout`);
+        }
+        return content;
+    }
+}
@@ -1,7 +1,19 @@
-import { Notice, TFile } from 'obsidian';
+import { Notice } from 'obsidian';
 import { FileService } from './FileService';
 import { ParserService } from './ParserService';
 import { ScheduleService } from './ScheduleService';
+import { TemplateService } from './TemplateService';
+import {
+    ClassBlock,
+    ClassFileInfo,
+    ClassSchedule,
+    HolidayEntry,
+    PlannedFileChange,
+    ScheduleContext,
+    TimeOverlap
+} from '../types';
+import { addDays } from '../utils/dateUtils';
+import { diffLines } from '../utils/diff';
 
 export interface UnitAssignmentResult {
     success: boolean;
@@ -10,60 +22,230 @@ export interface UnitAssignmentResult {
     createdPlans?: number;
     skippedPlans?: number;
     scheduleWarnings?: number;
+    overflowLessons?: number;
+    dryRun?: boolean;
+    changeSet?: AssignmentChangeSet;
 }
 
 export interface UnitAssignmentOptions {
     unitName: string;
     className: string;
     startDate: string;
+    // Compute the full change set without touching the vault
+    dryRun?: boolean;
+}
+
+export interface AssignmentPreviewEntry {
+    date: string;
+    dayNumber: number;
+    totalDays: number;
+    time: string;
+    scheduleNote: string;
+    hasScheduleWarning: boolean;
+    conflict: boolean;
+    overlaps: TimeOverlap[];
+    duplicate: boolean;
+    skippedHolidays: HolidayEntry[]; // holidays since the previous meeting (or the start date)
+    termChange?: string; // the term this meeting starts, when the unit runs across a term boundary
+}
+
+export interface AssignmentChangeSet {
+    files: PlannedFileChange[];
+    entries: AssignmentPreviewEntry[];
+    conflicts: Array<{ date: string; time: string; overlaps: TimeOverlap[] }>;
+    scheduleWarnings: Array<{ date: string; note: string }>;
+    overflowLessons: number; // lessons with no meeting left before the school year ends
+    unitWarnings: string[]; // Day heading problems that would break the ![[Unit#Day N]] embeds
+}
+
+export interface UnitUnassignmentOptions {
+    unitName: string;
+    className: string;
+    // Delete daily plans that have no classes left once the unit's entries are removed
+    deleteEmptyPlans?: boolean;
+    dryRun?: boolean;
+}
+
+export interface UnitUnassignmentResult {
+    success: boolean;
+    message?: string;
+    error?: string;
+    removedEntries?: number;
+    deletedPlans?: number;
+    dryRun?: boolean;
+    files?: PlannedFileChange[];
+}
+
+export interface UnitResizeOptions {
+    unitName: string;
+    className: string;
+    totalDays: number; // the unit's new length
+    // Also set duration_days in the unit note
+    updateUnitDuration?: boolean;
+    dryRun?: boolean;
+}
+
+export interface UnitResizeResult {
+    success: boolean;
+    message?: string;
+    error?: string;
+    previousDays?: number;
+    addedEntries?: number;
+    removedEntries?: number;
+    renumberedEntries?: number;
+    overflowLessons?: number;
+    dryRun?: boolean;
+    files?: PlannedFileChange[];
+}
+
+export interface UnitRescheduleOptions {
+    unitName: string;
+    className: string;
+    startDate: string; // new first day of the unit
+    dryRun?: boolean;
+}
+
+export interface UnitRescheduleResult {
+    success: boolean;
+    message?: string;
+    error?: string;
+    // Where each day went; from is null for days that had no entry and were created from the template
+    moves?: Array<{ dayNumber: number; from: string | null; to: string }>;
+    overflowLessons?: number;
+    dryRun?: boolean;
+    files?: PlannedFileChange[];
+}
+
+export interface PacingOptions {
+    className: string;
+    unitNames: string[]; // in teaching order
+    startDate: string; // first day of the first unit
+    endDate?: string; // units with meetings after this date are flagged
+    dryRun?: boolean;
+}
+
+export interface PacingUnitPlan {
+    unitName: string;
+    totalDays: number;
+    firstDate: string;
+    lastDate: string;
+    entries: AssignmentPreviewEntry[];
+    daysPastEnd: number; // meetings after PacingOptions.endDate
+    overflowLessons: number; // lessons that don't fit before the school year ends
+    unitWarnings: string[];
+}
+
+export interface PacingResult {
+    success: boolean;
+    message?: string;
+    error?: string;
+    dryRun?: boolean;
+    units?: PacingUnitPlan[];
+    changeSet?: AssignmentChangeSet;
+}
+
+interface UnitEntryPlan {
+    path: string;
+    date: string;
+    before: string;
+    blocks: ClassBlock[];
+}
+
+interface PlannedDailyPlanEntry {
+    path: string;
+    before: string | null;
+    after: string;
+    time: string;
+    scheduleNote: string;
+    hasScheduleWarning: boolean;
+    conflict: boolean;
+    overlaps: TimeOverlap[];
+    skipped: boolean;
 }
 
 export class UnitAssignmentService {
     private fileService: FileService;
     private parserService: ParserService;
     private scheduleService: ScheduleService;
+    private templateService: TemplateService;
 
     constructor(
         fileService: FileService,
         parserService: ParserService,
-        scheduleService: ScheduleService
+        scheduleService: ScheduleService,
+        templateService: TemplateService
     ) {
         this.fileService = fileService;
         this.parserService = parserService;
         this.scheduleService = scheduleService;
+        this.templateService = templateService;
     }
 
     /**
-     * Interactive unit assignment workflow
-     * This will be called from the main plugin
+     * Assign a specific unit to a specific class with given options.
+     * With dryRun set, returns the change set that would be written and leaves the vault untouched.
      */
-    async assignUnitToClass(): Promise<UnitAssignmentResult> {
+    async assignUnitToClassWithOptions(options: UnitAssignmentOptions): Promise<UnitAssignmentResult> {
         try {
-            // For now, we'll implement a simple workflow without modal
-            // Later we'll replace this with a proper modal interface
-            
-            // Get available units and classes
-            const availableUnits = await this.getAvailableUnits();
-            const availableClasses = await this.getAvailableClasses();
-            
-            if (availableUnits.length === 0) {
-                return { success: false, error: "No units found in Units folder" };
+            const planned = await this.planAssignment(options);
+            if (!planned.success || !planned.changeSet) {
+                return { success: false, error: planned.error };
             }
-            
-            if (availableClasses.length === 0) {
-                return { success: false, error: "No classes found in Classes folder" };
+
+            const changeSet = planned.changeSet;
+            if (changeSet.overflowLessons > 0) {
+                const schoolYear = await this.scheduleService.getSchoolYear();
+                return {
+                    success: false,
+                    overflowLessons: changeSet.overflowLessons,
+                    error: `${changeSet.overflowLessons} of ${changeSet.entries.length + changeSet.overflowLessons} lessons ` +
+                           `would fall after the last day of school (${schoolYear?.lastDay}). ` +
+                           'Pick an earlier start date or shorten the unit'
+                };
             }
-            
-            // For now, just show what we found and return a descriptive message
-            // Later we'll implement the modal for user selection
-            const unitsText = availableUnits.map(u => `${u.name} (${u.duration} days)`).join(', ');
-            const classesText = availableClasses.map(c => `${c.name} (${c.dayOfWeek} ${c.time})`).join(', ');
-            
+
+            const createdPlans = changeSet.entries.filter(entry => !entry.duplicate).length;
+            const skippedPlans = changeSet.entries.length - createdPlans;
+            const scheduleWarnings = changeSet.scheduleWarnings.length;
+            const unitWarnings = changeSet.unitWarnings.length;
+
+            if (options.dryRun) {
+                const newFiles = changeSet.files.filter(file => file.action === 'create').length;
+                const message = `Dry run: would add ${createdPlans} entries (${newFiles} new daily plans, ` +
+                               `${changeSet.files.length - newFiles} files modified), skip ${skippedPlans} duplicates` +
+                               (changeSet.conflicts.length > 0 ? `, ${changeSet.conflicts.length} time conflicts` : '') +
+                               (scheduleWarnings > 0 ? `, ${scheduleWarnings} schedule warnings` : '') +
+                               (unitWarnings > 0 ? `, ${unitWarnings} unit warnings` : '') +
+                               this.describeTermChanges(changeSet.entries);
+
+                return {
+                    success: true,
+                    dryRun: true,
+                    message,
+                    createdPlans,
+                    skippedPlans,
+                    scheduleWarnings,
+                    changeSet
+                };
+            }
+
+            // Daily plans plus the unit's active_classes and the class's current_units
+            await this.applyChangeSet(changeSet);
+
+            const message = `Created ${createdPlans} daily plans, skipped ${skippedPlans} duplicates` +
+                           (scheduleWarnings > 0 ? `, ${scheduleWarnings} schedule warnings` : '') +
+                           (unitWarnings > 0 ? `, ${unitWarnings} unit warnings` : '') +
+                           this.describeTermChanges(changeSet.entries);
+
             return {
                 success: true,
-                message: `Found ${availableUnits.length} units: ${unitsText}. Found ${availableClasses.length} classes: ${classesText}. Modal interface coming next!`
+                message: message,
+                createdPlans: createdPlans,
+                skippedPlans: skippedPlans,
+                scheduleWarnings: scheduleWarnings,
+                changeSet
             };
-            
+
         } catch (error) {
             console.error('Unit assignment error:', error);
             return {
@@ -73,208 +255,761 @@ export class UnitAssignmentService {
         }
     }
 
+    // Work out every daily plan edit for an assignment in memory
+    private async planAssignment(options: UnitAssignmentOptions, includeMetadata = true): Promise<{
+        success: boolean;
+        error?: string;
+        changeSet?: AssignmentChangeSet;
+    }> {
+        const prepared = await this.prepareAssignment(options);
+        if (!prepared.success || !prepared.plan) {
+            return { success: false, error: prepared.error };
+        }
+
+        const { dates, totalDays, scheduleContext, unitWarnings } = prepared.plan;
+        const changeSet: AssignmentChangeSet = {
+            files: [],
+            entries: [],
+            conflicts: [],
+            scheduleWarnings: [],
+            overflowLessons: totalDays - dates.length,
+            unitWarnings
+        };
+
+        const schoolYear = await this.scheduleService.getSchoolYear();
+        let currentTerm = this.scheduleService.findTerm(dates[0] || options.startDate, schoolYear);
+
+        for (let i = 0; i < dates.length; i++) {
+            const planned = await this.planDailyPlanEntry(
+                dates[i],
+                options.className,
+                options.unitName,
+                i + 1,
+                totalDays,
+                scheduleContext
+            );
+
+            // Meetings between terms keep the previous term, so only a real change of term is flagged
+            const term = this.scheduleService.findTerm(dates[i], schoolYear);
+            const termChange = term && currentTerm && term.name !== currentTerm.name ? term.name : undefined;
+            currentTerm = term || currentTerm;
+
+            changeSet.entries.push({
+                date: dates[i],
+                dayNumber: i + 1,
+                totalDays,
+                time: planned.time,
+                scheduleNote: planned.scheduleNote,
+                hasScheduleWarning: planned.hasScheduleWarning,
+                conflict: planned.conflict,
+                overlaps: planned.overlaps,
+                duplicate: planned.skipped,
+                skippedHolidays: await this.scheduleService.getHolidaysBetween(
+                    i === 0 ? addDays(options.startDate, -1) : dates[i - 1],
+                    dates[i]
+                ),
+                termChange
+            });
+
+            if (planned.skipped) continue;
+
+            if (planned.conflict) {
+                changeSet.conflicts.push({ date: dates[i], time: planned.time, overlaps: planned.overlaps });
+            }
+            if (planned.hasScheduleWarning) {
+                changeSet.scheduleWarnings.push({ date: dates[i], note: planned.scheduleNote.trim() });
+            }
+
+            changeSet.files.push({
+                path: planned.path,
+                action: planned.before === null ? 'create' : 'modify',
+                before: planned.before,
+                after: planned.after,
+                diff: diffLines(planned.before || '', planned.after)
+            });
+        }
+
+        if (includeMetadata) {
+            const metadataChanges = [
+                await this.planUnitWithClass(options.unitName, options.className, 'add'),
+                await this.planClassWithUnits(options.className, [options.unitName], 'add')
+            ];
+            for (const change of metadataChanges) {
+                if (change) changeSet.files.push(change);
+            }
+        }
+
+        return { success: true, changeSet };
+    }
+
+    // e.g. ", crosses into Spring Semester on 2026-01-20"
+    private describeTermChanges(entries: AssignmentPreviewEntry[]): string {
+        return entries
+            .filter(entry => entry.termChange)
+            .map(entry => `, crosses into ${entry.termChange} on ${entry.date}`)
+            .join('');
+    }
+
     /**
-     * Assign a specific unit to a specific class with given options
-     * This is the core logic that will be called by the modal
+     * Schedule a list of units back to back for one class: each unit starts at the class's first
+     * meeting after the previous unit's last day. All daily plans and metadata are planned together
+     * and, unless dryRun is set, written in one go.
      */
-    async assignUnitToClassWithOptions(options: UnitAssignmentOptions): Promise<UnitAssignmentResult> {
+    async scheduleUnitSequence(options: PacingOptions): Promise<PacingResult> {
         try {
-            const { unitName, className, startDate } = options;
-
-            // Validate inputs
-            const validation = await this.validateAssignmentInputs(unitName, className, startDate);
-            if (!validation.success) {
-                return validation;
+            const { className, unitNames, endDate } = options;
+            if (unitNames.length === 0) {
+                return { success: false, error: 'The pacing guide lists no units' };
             }
-
-            // Get unit duration and class schedule info
-            const unitInfo = await this.getUnitInfo(unitName);
-            if (!unitInfo.success) {
-                return { success: false, error: unitInfo.error };
+            if (endDate && !this.parserService.isValidDate(endDate)) {
+                return { success: false, error: `Invalid end date "${endDate}". Use YYYY-MM-DD` };
             }
 
             const classInfo = await this.getClassInfo(className);
-            if (!classInfo.success) {
+            if (!classInfo.success || !classInfo.daysOfWeek) {
                 return { success: false, error: classInfo.error };
             }
+            const meeting = { daysOfWeek: classInfo.daysOfWeek, cycleDays: classInfo.cycleDays };
 
-            // Calculate all class dates for this unit
-            const dates = await this.calculateClassDates(
-                startDate, 
-                classInfo.dayOfWeek, 
-                unitInfo.duration
-            );
-
-            // Create schedule context - FROM WORKING SCRIPT
-            const scheduleContext = {
-                className: className,
-                regularTime: classInfo.regularTime,
-                earlyDismissalTime: classInfo.earlyDismissalTime,
-                testingDayTime: classInfo.testingDayTime,
-                specialSchedules: await this.scheduleService.getSpecialSchedules()
+            const changeSet: AssignmentChangeSet = {
+                files: [],
+                entries: [],
+                conflicts: [],
+                scheduleWarnings: [],
+                overflowLessons: 0,
+                unitWarnings: []
             };
+            const units: PacingUnitPlan[] = [];
+            let startDate = options.startDate;
 
-            // Create daily plan entries
-            let createdPlans = 0;
-            let skippedPlans = 0;
-            let scheduleWarnings = 0;
+            for (const unitName of unitNames) {
+                const planned = await this.planAssignment({ unitName, className, startDate }, false);
+                if (!planned.success || !planned.changeSet) {
+                    return { success: false, error: `${unitName}: ${planned.error}` };
+                }
 
-            for (let i = 0; i < dates.length; i++) {
-                const result = await this.createDailyPlanEntry(
-                    dates[i],
-                    className,
+                const { entries, overflowLessons, unitWarnings } = planned.changeSet;
+                const lastDate = entries.length > 0 ? entries[entries.length - 1].date : '';
+                units.push({
                     unitName,
-                    i + 1,
-                    unitInfo.duration,
-                    scheduleContext
-                );
+                    totalDays: entries.length + overflowLessons,
+                    firstDate: entries.length > 0 ? entries[0].date : '',
+                    lastDate,
+                    entries,
+                    daysPastEnd: endDate ? entries.filter(entry => entry.date > endDate).length : 0,
+                    overflowLessons,
+                    unitWarnings
+                });
+
+                changeSet.files.push(...planned.changeSet.files);
+                changeSet.entries.push(...entries);
+                changeSet.conflicts.push(...planned.changeSet.conflicts);
+                changeSet.scheduleWarnings.push(...planned.changeSet.scheduleWarnings);
+                changeSet.overflowLessons += overflowLessons;
+                changeSet.unitWarnings.push(...unitWarnings);
+
+                // Once the school year has run out, the remaining units get no meetings at all
+                if (lastDate) {
+                    startDate = await this.scheduleService.findNextSchoolDay(lastDate, meeting) || addDays(lastDate, 1);
+                }
+            }
 
-                if (result.success) createdPlans++;
-                if (result.skipped) skippedPlans++;
-                if (result.hasScheduleWarning) scheduleWarnings++;
+            const scheduledUnits = units.filter(unit => unit.entries.length > 0).map(unit => unit.unitName);
+            if (scheduledUnits.length === 0) {
+                const schoolYear = await this.scheduleService.getSchoolYear();
+                return { success: false, error: `No meetings left between ${options.startDate} and the end of the school year (${schoolYear?.lastDay})` };
             }
 
-            // Update unit and class metadata
-            await this.updateUnitWithClass(unitName, className);
-            await this.updateClassWithUnit(className, unitName);
+            for (const unitName of scheduledUnits) {
+                const change = await this.planUnitWithClass(unitName, className, 'add');
+                if (change) changeSet.files.push(change);
+            }
+            const classChange = await this.planClassWithUnits(className, scheduledUnits, 'add');
+            if (classChange) changeSet.files.push(classChange);
 
-            const message = `Created ${createdPlans} daily plans, skipped ${skippedPlans} duplicates` +
-                           (scheduleWarnings > 0 ? `, ${scheduleWarnings} schedule warnings` : '');
+            const added = changeSet.entries.filter(entry => !entry.duplicate).length;
+            const overflowing = units.filter(unit => unit.daysPastEnd > 0);
+            const { entries } = changeSet;
+            const summary = `${units.length} units, ${added} entries from ${entries[0].date} to ${entries[entries.length - 1].date}` +
+                (changeSet.conflicts.length > 0 ? `, ${changeSet.conflicts.length} time conflicts` : '') +
+                (changeSet.scheduleWarnings.length > 0 ? `, ${changeSet.scheduleWarnings.length} schedule warnings` : '') +
+                (changeSet.unitWarnings.length > 0 ? `, ${changeSet.unitWarnings.length} unit warnings` : '') +
+                (overflowing.length > 0 ? `, ${overflowing.length} units run past ${endDate}` : '') +
+                (changeSet.overflowLessons > 0 ? `, ${changeSet.overflowLessons} lessons don't fit before the school year ends` : '') +
+                this.describeTermChanges(entries);
+
+            if (options.dryRun) {
+                return { success: true, dryRun: true, message: `Dry run: ${summary}`, units, changeSet };
+            }
+
+            await this.applyChangeSet(changeSet);
+            return { success: true, message: `Scheduled ${summary}`, units, changeSet };
+        } catch (error) {
+            console.error('Pacing guide error:', error);
+            return { success: false, error: error.message };
+        }
+    }
+
+    /**
+     * Remove every entry of a unit from a class's daily plans, along with the metadata links
+     * between them. Optionally deletes daily plans that end up with no classes.
+     */
+    async unassignUnitFromClass(options: UnitUnassignmentOptions): Promise<UnitUnassignmentResult> {
+        try {
+            const { unitName, className } = options;
+            const files: PlannedFileChange[] = [];
+            let removedEntries = 0;
+            let deletedPlans = 0;
+
+            const dailyPlans = await this.fileService.getDailyPlans();
+            for (const planFile of dailyPlans) {
+                const before = await this.fileService.readFile(planFile.path, false);
+                if (before === null) continue;
+
+                const blocks = this.parserService.extractClassBlocks(before)
+                    .filter(block => block.className === className && block.unit === unitName);
+                if (blocks.length === 0) continue;
+
+                // Remove from the bottom up so earlier line numbers stay valid
+                let after = before;
+                for (const block of blocks.reverse()) {
+                    after = this.parserService.removeBlock(after, block);
+                    removedEntries++;
+                }
+
+                const remainingBlocks = this.parserService.extractClassBlocks(after);
+                if (!remainingBlocks.some(block => block.className === className)) {
+                    after = this.parserService.updateClassesList(after, className, 'remove');
+                }
+
+                const remainingClasses = this.parserService.parseDailyPlan(after, planFile.path)?.classes || [];
+                if (options.deleteEmptyPlans && remainingBlocks.length === 0 && remainingClasses.length === 0) {
+                    files.push({ path: planFile.path, action: 'delete', before, after: null, diff: diffLines(before, '') });
+                    deletedPlans++;
+                } else {
+                    files.push({ path: planFile.path, action: 'modify', before, after, diff: diffLines(before, after) });
+                }
+            }
+
+            const metadataChanges = [
+                await this.planUnitWithClass(unitName, className, 'remove'),
+                await this.planClassWithUnits(className, [unitName], 'remove')
+            ];
+            for (const change of metadataChanges) {
+                if (change) files.push(change);
+            }
+
+            if (files.length === 0) {
+                return { success: false, error: `${unitName} is not assigned to ${className}` };
+            }
+
+            const message = `${options.dryRun ? 'Dry run: would remove' : 'Removed'} ${removedEntries} entries` +
+                           (deletedPlans > 0 ? `, ${options.dryRun ? 'delete' : 'deleted'} ${deletedPlans} empty daily plans` : '');
+
+            if (!options.dryRun) {
+                await this.applyFileChanges(files);
+            }
 
             return {
                 success: true,
-                message: message,
-                createdPlans: createdPlans,
-                skippedPlans: skippedPlans,
-                scheduleWarnings: scheduleWarnings
+                message,
+                removedEntries,
+                deletedPlans,
+                dryRun: options.dryRun,
+                files
             };
-
         } catch (error) {
-            console.error('Unit assignment error:', error);
+            console.error('Unit unassignment error:', error);
+            return { success: false, error: error.message };
+        }
+    }
+
+    /**
+     * Change how many days a class spends on an assigned unit. New days go on the class's next
+     * meetings after its last entry for the unit, removed days come off the end, and every
+     * remaining entry's "Day N of M" is rewritten to the new total.
+     */
+    async resizeUnitAssignment(options: UnitResizeOptions): Promise<UnitResizeResult> {
+        try {
+            const { unitName, className, totalDays } = options;
+            if (!Number.isInteger(totalDays) || totalDays < 1) {
+                return { success: false, error: 'The new length must be a whole number of days' };
+            }
+
+            const plans = await this.findUnitEntries(className, unitName);
+            if (plans.length === 0) {
+                return { success: false, error: `${unitName} is not assigned to ${className}` };
+            }
+
+            const allBlocks = plans.reduce((all, plan) => all.concat(plan.blocks), [] as ClassBlock[]);
+            const lastDayNumber = Math.max(...allBlocks.map(block => block.dayNumber));
+            const previousDays = Math.max(...allBlocks.map(block => block.totalDays));
+            if (lastDayNumber === totalDays && allBlocks.every(block => block.totalDays === totalDays)) {
+                return { success: false, error: `${unitName} already runs ${totalDays} days for ${className}` };
+            }
+
+            const files: PlannedFileChange[] = [];
+            let removedEntries = 0;
+            let renumberedEntries = 0;
+
+            for (const plan of plans) {
+                // Bottom up, so removing a section leaves the line numbers above it valid
+                let after = plan.before;
+                for (const block of plan.blocks.sort((a, b) => b.startLine - a.startLine)) {
+                    if (block.dayNumber > totalDays) {
+                        after = this.parserService.removeBlock(after, block);
+                        removedEntries++;
+                    } else if (block.totalDays !== totalDays) {
+                        after = this.parserService.setBlockDay(after, block, block.dayNumber, totalDays);
+                        renumberedEntries++;
+                    }
+                }
+
+                if (!this.parserService.findClassBlock(after, className)) {
+                    after = this.parserService.updateClassesList(after, className, 'remove');
+                }
+                if (after !== plan.before) {
+                    files.push({ path: plan.path, action: 'modify', before: plan.before, after, diff: diffLines(plan.before, after) });
+                }
+            }
+
+            const added = await this.planAddedDays(options, lastDayNumber, plans[plans.length - 1].date);
+            if (!added.success || !added.files) {
+                return { success: false, error: added.error, overflowLessons: added.overflowLessons };
+            }
+            files.push(...added.files);
+
+            if (options.updateUnitDuration) {
+                const change = await this.planUnitDuration(unitName, totalDays);
+                if (change) files.push(change);
+            }
+
+            const message = `${options.dryRun ? 'Dry run: ' : ''}${unitName} for ${className} goes from ${previousDays} to ${totalDays} days: ` +
+                           `${added.files.length} entries added, ${removedEntries} removed, ${renumberedEntries} renumbered` +
+                           (added.conflicts ? `, ${added.conflicts} time conflicts` : '');
+
+            if (!options.dryRun) {
+                await this.applyFileChanges(files);
+            }
+
             return {
-                success: false,
-                error: error.message
+                success: true,
+                message,
+                previousDays,
+                addedEntries: added.files.length,
+                removedEntries,
+                renumberedEntries,
+                dryRun: options.dryRun,
+                files
             };
+        } catch (error) {
+            console.error('Unit resize error:', error);
+            return { success: false, error: error.message };
         }
     }
 
-    // COPIED EXACTLY FROM WORKING UNIT ASSIGNMENT SCRIPT
-    private async createDailyPlanEntry(
-        date: string,
-        className: string,
-        unitName: string,
-        dayNumber: number,
-        totalDays: number,
-        scheduleContext: any
-    ): Promise<{ success: boolean; skipped?: boolean; hasScheduleWarning?: boolean }> {
+    // Days the class currently spends on the unit, from the "Day N of M" lines of its entries; 0 when it isn't assigned
+    async getAssignedLength(className: string, unitName: string): Promise<number> {
+        const plans = await this.findUnitEntries(className, unitName);
+        const blocks = plans.reduce((all, plan) => all.concat(plan.blocks), [] as ClassBlock[]);
+        return blocks.length > 0 ? Math.max(...blocks.map(block => block.totalDays)) : 0;
+    }
+
+    // Every daily plan with entries of the unit for this class, in date order
+    private async findUnitEntries(className: string, unitName: string): Promise<UnitEntryPlan[]> {
+        const plans: UnitEntryPlan[] = [];
+        for (const planFile of await this.fileService.getDailyPlans()) {
+            const before = await this.fileService.readFile(planFile.path, false);
+            if (before === null) continue;
+
+            const blocks = this.parserService.extractClassBlocks(before)
+                .filter(block => block.className === className && block.unit === unitName);
+            if (blocks.length > 0) {
+                plans.push({ path: planFile.path, date: planFile.basename, before, blocks });
+            }
+        }
+        return plans;
+    }
+
+    /**
+     * Take a unit's entries for a class off their current dates and lay the unit out again from a
+     * new start date with today's holidays and special schedules. Each day keeps its section body,
+     * so notes written under Day N travel with it; only the heading's time and note are recomputed.
+     */
+    async rescheduleUnit(options: UnitRescheduleOptions): Promise<UnitRescheduleResult> {
         try {
-            const dailyPlanPath = this.fileService.getFullPath(`Daily Plans/${date}.md`);
-            let content = "";
-            let isExistingPlan = false;
-            
-            if (this.fileService.fileExists(dailyPlanPath)) {
-                content = await this.fileService.readFile(dailyPlanPath);
-                isExistingPlan = true;
-            } else {
-                // Create new daily plan
-                const [year, month, day] = date.split('-');
-                const dateObj = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-                content = `---
-date: ${date}
-day_of_week: "${dateObj.toLocaleDateString('en-US', {weekday: 'long'})}"
-classes: []
----
+            const { unitName, className, startDate } = options;
+            if (!this.parserService.isValidDate(startDate)) {
+                return { success: false, error: 'Invalid start date. Use YYYY-MM-DD' };
+            }
 
-# ${dateObj.toLocaleDateString('en-US', {weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'})}`;
+            const plans = await this.findUnitEntries(className, unitName);
+            if (plans.length === 0) {
+                return { success: false, error: `${unitName} is not assigned to ${className}` };
             }
 
-            // Check for duplicates
-            const classRegex = new RegExp(`## [^\\n]*${className.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[^\\n]*$`, 'm');
-            if (classRegex.test(content)) {
-                return { success: true, skipped: true, hasScheduleWarning: false };
+            const classInfo = await this.getClassInfo(className);
+            if (!classInfo.success || !classInfo.daysOfWeek) {
+                return { success: false, error: classInfo.error };
             }
-            
-            // Calculate correct time and schedule note for this specific date
-            const scheduleType = this.getScheduleTypeForDate(date, scheduleContext.specialSchedules);
-            let classTime = scheduleContext.regularTime;
-            let scheduleNote = "";
-            let hasScheduleWarning = false;
-
-            if (scheduleType === 'early_dismissal') {
-                if (scheduleContext.earlyDismissalTime && 
-                    scheduleContext.earlyDismissalTime.trim() !== "" && 
-                    scheduleContext.earlyDismissalTime !== "TBD") {
-                    classTime = scheduleContext.earlyDismissalTime;
-                    scheduleNote = " (Early Dismissal)";
-                } else {
-                    scheduleNote = " (⚠️ Early Dismissal - using regular time, adjust manually)";
-                    hasScheduleWarning = true;
+
+            // The length the class was given, which a resize may have made differ from duration_days
+            const totalDays = Math.max(...plans.map(plan => Math.max(...plan.blocks.map(block => block.totalDays))));
+            if (totalDays < 1) {
+                return { success: false, error: `${unitName} entries for ${className} have no "Day N of M" line to go by` };
+            }
+
+            const dates = await this.scheduleService.calculateClassDates(
+                startDate,
+                { daysOfWeek: classInfo.daysOfWeek, cycleDays: classInfo.cycleDays },
+                totalDays
+            );
+            if (dates.length < totalDays) {
+                const schoolYear = await this.scheduleService.getSchoolYear();
+                return {
+                    success: false,
+                    overflowLessons: totalDays - dates.length,
+                    error: `${totalDays - dates.length} of ${totalDays} lessons would fall after the last day of school (${schoolYear?.lastDay})`
+                };
+            }
+
+            // Lift every entry out first, so the new dates may overlap the old ones
+            const originals = new Map<string, string | null>();
+            const drafts = new Map<string, string>();
+            const sections = new Map<number, { date: string; body: string }>();
+            const dropped: string[] = [];
+
+            for (const plan of plans) {
+                let draft = plan.before;
+                for (const block of plan.blocks.sort((a, b) => b.startLine - a.startLine)) {
+                    const lastInNote = draft.split('\n').slice(block.endLine + 1).every(line => line.trim() === '');
+                    draft = this.parserService.removeBlock(draft, block);
+
+                    // Blank lines left at the end of the note would stack up in front of an entry appended there
+                    if (lastInNote) {
+                        draft = draft.replace(/\s+$/, '');
+                    }
                 }
-            } else if (scheduleType === 'testing_day') {
-                if (scheduleContext.testingDayTime && 
-                    scheduleContext.testingDayTime !== scheduleContext.regularTime) {
-                    classTime = scheduleContext.testingDayTime;
-                    scheduleNote = " (Testing Day)";
-                } else {
-                    scheduleNote = " (⚠️ Testing Day - using regular time, update testing_day_time when known)";
-                    hasScheduleWarning = true;
+                if (!this.parserService.findClassBlock(draft, className)) {
+                    draft = this.parserService.updateClassesList(draft, className, 'remove');
+                }
+                originals.set(plan.path, plan.before);
+                drafts.set(plan.path, draft);
+
+                for (const block of plan.blocks.sort((a, b) => a.startLine - b.startLine)) {
+                    if (block.dayNumber < 1 || block.dayNumber > totalDays || sections.has(block.dayNumber)) {
+                        dropped.push(`${plan.date}${block.dayNumber > 0 ? ` (Day ${block.dayNumber})` : ''}`);
+                    } else {
+                        sections.set(block.dayNumber, {
+                            date: plan.date,
+                            body: this.parserService.setDayLine(block.body, block.dayNumber, totalDays)
+                        });
+                    }
                 }
             }
 
-            // Create class entry with correct transclusion format
-            const transclusionRef = `![[${unitName}#Day ${dayNumber}]]`;            
-            const classEntry = `
+            const scheduleContext = await this.createScheduleContext(className, classInfo);
+            const moves: UnitRescheduleResult['moves'] = [];
+            const occupied: string[] = [];
+            let conflicts = 0;
 
-## ${classTime} - ${className}${scheduleNote}
+            for (let i = 0; i < dates.length; i++) {
+                const section = sections.get(i + 1);
+                const path = this.fileService.getFullPath(`Daily Plans/${dates[i]}.md`);
+                const planned = await this.planDailyPlanEntry(
+                    dates[i], className, unitName, i + 1, totalDays, scheduleContext,
+                    drafts.has(path) ? drafts.get(path) : undefined,
+                    section?.body
+                );
 
-**Unit:** [[${unitName}]]  
-**Day:** ${dayNumber} of ${totalDays}  
-**Lesson:** Day ${dayNumber}
+                if (planned.skipped) {
+                    occupied.push(dates[i]);
+                    continue;
+                }
+                if (planned.conflict) conflicts++;
+                if (!originals.has(path)) originals.set(path, planned.before);
+                drafts.set(path, planned.after);
+                moves.push({ dayNumber: i + 1, from: section ? section.date : null, to: dates[i] });
+            }
 
-### Quick Reference
+            // Another unit already holds some of the new meetings
+            if (occupied.length > 0) {
+                return {
+                    success: false,
+                    error: `${className} already has entries on ${occupied.join(', ')}. Move or bump them first`
+                };
+            }
 
-${transclusionRef}
+            // Lifting an entry out and putting it back can leave extra blank lines, which aren't worth a change
+            const withoutBlankLines = (content: string) => content.split('\n').filter(line => line.trim() !== '').join('\n');
+            const files: PlannedFileChange[] = [];
+            drafts.forEach((after, path) => {
+                const before = originals.get(path) ?? null;
+                if (before !== null && withoutBlankLines(before) === withoutBlankLines(after)) return;
+                files.push({
+                    path,
+                    action: before === null ? 'create' : 'modify',
+                    before,
+                    after,
+                    diff: diffLines(before || '', after)
+                });
+            });
+            files.sort((a, b) => a.path.localeCompare(b.path));
+            if (files.length === 0) {
+                return { success: false, error: `${unitName} for ${className} already starts on ${dates[0]}` };
+            }
 
----
+            const moved = moves.filter(move => move.from !== null && move.from !== move.to).length;
+            const message = `${options.dryRun ? 'Dry run: ' : ''}${unitName} for ${className} now runs ${dates[0]} to ${dates[dates.length - 1]}, ` +
+                           `${moved} entries moved with their notes` +
+                           (moves.length > sections.size ? `, ${moves.length - sections.size} created from the template` : '') +
+                           (conflicts > 0 ? `, ${conflicts} time conflicts` : '') +
+                           (dropped.length > 0 ? `, dropped duplicate or unnumbered entries on ${dropped.join(', ')}` : '');
 
-`;
+            if (!options.dryRun) {
+                await this.applyFileChanges(files);
+            }
 
-            // Insert class entry in proper time order
-            const insertResult = this.parserService.insertClassByTimeFixed(content, classEntry, classTime, className);
-            content = insertResult.content;
-            
-            if (insertResult.conflict) {
-                console.warn(`Time conflict: ${classTime} already has a class scheduled for ${date}`);
-                new Notice(`Warning: Time conflict at ${classTime} on ${date}`);
+            return { success: true, message, moves, dryRun: options.dryRun, files };
+        } catch (error) {
+            console.error('Unit reschedule error:', error);
+            return { success: false, error: error.message };
+        }
+    }
+
+    // New entries for days lastDayNumber+1 to the new total, on the meetings after the unit's last entry
+    private async planAddedDays(options: UnitResizeOptions, lastDayNumber: number, lastDate: string): Promise<{
+        success: boolean;
+        error?: string;
+        overflowLessons?: number;
+        files?: PlannedFileChange[];
+        conflicts?: number;
+    }> {
+        const { unitName, className, totalDays } = options;
+        const count = totalDays - lastDayNumber;
+        if (count <= 0) {
+            return { success: true, files: [], conflicts: 0 };
+        }
+
+        const classInfo = await this.getClassInfo(className);
+        if (!classInfo.success || !classInfo.daysOfWeek) {
+            return { success: false, error: classInfo.error };
+        }
+        const meeting = { daysOfWeek: classInfo.daysOfWeek, cycleDays: classInfo.cycleDays };
+
+        const firstDate = await this.scheduleService.findNextSchoolDay(lastDate, meeting);
+        const dates = firstDate ? await this.scheduleService.calculateClassDates(firstDate, meeting, count) : [];
+        if (dates.length < count) {
+            const schoolYear = await this.scheduleService.getSchoolYear();
+            return {
+                success: false,
+                overflowLessons: count - dates.length,
+                error: `${count - dates.length} of the ${count} new lessons would fall after the last day of school (${schoolYear?.lastDay})`
+            };
+        }
+
+        const scheduleContext = await this.createScheduleContext(className, classInfo);
+        const files: PlannedFileChange[] = [];
+        const occupied: string[] = [];
+        let conflicts = 0;
+
+        for (let i = 0; i < dates.length; i++) {
+            const planned = await this.planDailyPlanEntry(dates[i], className, unitName, lastDayNumber + i + 1, totalDays, scheduleContext);
+            if (planned.skipped) {
+                occupied.push(dates[i]);
+                continue;
             }
-            
-            // Update frontmatter classes list
-            content = this.parserService.updateClassesList(content, className, 'add');
+            if (planned.conflict) conflicts++;
+
+            files.push({
+                path: planned.path,
+                action: planned.before === null ? 'create' : 'modify',
+                before: planned.before,
+                after: planned.after,
+                diff: diffLines(planned.before || '', planned.after)
+            });
+        }
+
+        // The meetings right after the unit usually belong to the next unit, which would have to move first
+        if (occupied.length > 0) {
+            return {
+                success: false,
+                error: `${className} already has entries on ${occupied.join(', ')}. Bump them out of the way before adding days`
+            };
+        }
+
+        return { success: true, files, conflicts };
+    }
+
+    private async planUnitDuration(unitName: string, totalDays: number): Promise<PlannedFileChange | null> {
+        const units = await this.fileService.getFilesInFolder('Units');
+        const unitFile = units.find(file => file.basename === unitName);
+        if (!unitFile) return null;
 
-            // Save the file
-            if (isExistingPlan) {
-                await this.fileService.writeFile(dailyPlanPath, content);
+        const before = await this.fileService.readFile(unitFile.path, false);
+        if (before === null) return null;
+
+        const after = this.parserService.setFrontmatterValue(before, 'duration_days', totalDays);
+        if (after === before) return null;
+
+        return { path: unitFile.path, action: 'modify', before, after, diff: diffLines(before, after) };
+    }
+
+    private async applyChangeSet(changeSet: AssignmentChangeSet): Promise<void> {
+        for (const conflict of changeSet.conflicts) {
+            for (const overlap of conflict.overlaps) {
+                const message = `Time conflict on ${conflict.date}: ${this.parserService.describeOverlap(overlap)}`;
+                console.warn(message);
+                new Notice(`Warning: ${message}`);
+            }
+        }
+
+        await this.applyFileChanges(changeSet.files);
+    }
+
+    private async applyFileChanges(files: PlannedFileChange[]): Promise<void> {
+        for (const change of files) {
+            let saved: boolean;
+            if (change.action === 'delete' || change.after === null) {
+                saved = await this.fileService.deleteFile(change.path);
+            } else if (change.action === 'modify') {
+                saved = await this.fileService.writeFile(change.path, change.after);
             } else {
-                await this.fileService.createFile(dailyPlanPath, content);
+                saved = await this.fileService.createFile(change.path, change.after);
+            }
+
+            if (!saved) {
+                throw new Error(`Could not save ${change.path}`);
             }
-            
-            return { success: true, hasScheduleWarning: hasScheduleWarning };
-            
-        } catch (error) {
-            console.error(`Error creating daily plan for ${date}:`, error);
-            return { success: false, hasScheduleWarning: false };
         }
     }
 
-    // Helper method copied from working script
-    private getScheduleTypeForDate(date: string, specialSchedules: any): 'regular' | 'early_dismissal' | 'testing_day' {
-        if (specialSchedules.early_dismissal.includes(date)) {
-            return 'early_dismissal';
+    // Validate inputs and gather everything needed to lay out the unit's meetings
+    private async prepareAssignment(options: UnitAssignmentOptions): Promise<{
+        success: boolean;
+        error?: string;
+        plan?: { dates: string[]; totalDays: number; scheduleContext: ScheduleContext; unitWarnings: string[] };
+    }> {
+        const { unitName, className, startDate } = options;
+
+        // Validate inputs
+        const validation = await this.validateAssignmentInputs(unitName, className, startDate);
+        if (!validation.success) {
+            return { success: false, error: validation.error };
+        }
+
+        // Get unit duration and class schedule info
+        const unitInfo = await this.getUnitInfo(unitName);
+        if (!unitInfo.success || unitInfo.duration === undefined) {
+            return { success: false, error: unitInfo.error };
+        }
+
+        const classInfo = await this.getClassInfo(className);
+        if (!classInfo.success || !classInfo.daysOfWeek) {
+            return { success: false, error: classInfo.error };
+        }
+
+        // Calculate all class dates for this unit across the class's meeting days or rotation days
+        const dates = await this.scheduleService.calculateClassDates(
+            startDate, 
+            { daysOfWeek: classInfo.daysOfWeek, cycleDays: classInfo.cycleDays }, 
+            unitInfo.duration
+        );
+
+        const scheduleContext = await this.createScheduleContext(className, classInfo);
+
+        return {
+            success: true,
+            plan: { dates, totalDays: unitInfo.duration, scheduleContext, unitWarnings: unitInfo.warnings || [] }
+        };
+    }
+
+    // Create schedule context - FROM WORKING SCRIPT
+    private async createScheduleContext(className: string, classInfo: ClassFileInfo): Promise<ScheduleContext> {
+        return {
+            className: className,
+            regularTime: classInfo.regularTime || 'TBD',
+            weekdayTimes: classInfo.weekdayTimes,
+            specialTimes: classInfo.specialTimes || {},
+            specialSchedules: await this.scheduleService.getSpecialSchedules()
+        };
+    }
+
+    // COPIED EXACTLY FROM WORKING UNIT ASSIGNMENT SCRIPT - now computes the new content without saving it
+    // An in-progress draft of the note can stand in for the vault copy, and an existing section
+    // body can replace the template's
+    private async planDailyPlanEntry(
+        date: string,
+        className: string,
+        unitName: string,
+        dayNumber: number,
+        totalDays: number,
+        scheduleContext: ScheduleContext,
+        draft?: string,
+        body?: string
+    ): Promise<PlannedDailyPlanEntry> {
+        const dailyPlanPath = this.fileService.getFullPath(`Daily Plans/${date}.md`);
+        const before = draft !== undefined ? draft : await this.fileService.readFile(dailyPlanPath, false);
+        const cycleDay = await this.scheduleService.getCycleDay(date);
+        let content = before !== null ? before : await this.templateService.buildDailyPlan(date, cycleDay);
+
+        // Calculate correct time and schedule note for this specific date
+        const specialSchedule = this.scheduleService.findSpecialSchedule(date, scheduleContext.specialSchedules);
+        const timeInfo = this.scheduleService.resolveClassTime(scheduleContext, specialSchedule, date);
+        const classTime = timeInfo.time;
+        const scheduleNote = timeInfo.note;
+
+        const planned: PlannedDailyPlanEntry = {
+            path: dailyPlanPath,
+            before,
+            after: content,
+            time: classTime,
+            scheduleNote,
+            hasScheduleWarning: timeInfo.needsReview,
+            conflict: false,
+            overlaps: [],
+            skipped: false
+        };
+
+        // Check for duplicates
+        const classRegex = new RegExp(`## [^\\n]*${className.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}[^\\n]*$`, 'm');
+        if (classRegex.test(content)) {
+            planned.skipped = true;
+            planned.hasScheduleWarning = false;
+            return planned;
         }
-        if (specialSchedules.testing_day.includes(date)) {
-            return 'testing_day';
+
+        // Class entry from the configured template, with the transclusion of the unit's Day N section
+        const classEntry = body !== undefined
+            ? this.parserService.buildClassEntry(classTime, className, scheduleNote, body)
+            : await this.templateService.buildClassEntry({
+                date,
+                className,
+                unitName,
+                dayNumber,
+                totalDays,
+                time: classTime,
+                scheduleNote
+            });
+
+        // Insert class entry in proper time order, checking it against the lengths of the classes already there
+        const classNames = this.parserService.extractClassBlocks(content).map(block => block.className);
+        const durations = await this.scheduleService.getClassDurations([...classNames, className], date);
+        const insertResult = this.parserService.insertClassByTimeFixed(content, classEntry, classTime, className, durations);
+        content = insertResult.content;
+        
+        // Update frontmatter classes list
+        content = this.parserService.updateClassesList(content, className, 'add');
+
+        // Record which rotation day this is when the school uses one
+        if (cycleDay) {
+            content = this.parserService.setFrontmatterValue(content, 'cycle_day', cycleDay);
         }
-        return 'regular';
+
+        planned.after = content;
+        planned.conflict = insertResult.conflict;
+        planned.overlaps = insertResult.overlaps;
+        return planned;
     }
 
     private async validateAssignmentInputs(unitName: string, className: string, startDate: string): Promise<UnitAssignmentResult> {
@@ -300,7 +1035,7 @@ ${transclusionRef}
         return { success: true };
     }
 
-    private async getUnitInfo(unitName: string): Promise<{ success: boolean; duration?: number; error?: string }> {
+    private async getUnitInfo(unitName: string): Promise<{ success: boolean; duration?: number; warnings?: string[]; error?: string }> {
         try {
             const units = await this.fileService.getFilesInFolder('Units');
             const unitFile = units.find(file => file.basename === unitName);
@@ -310,26 +1045,34 @@ ${transclusionRef}
             }
 
             const content = await this.fileService.readFile(unitFile.path);
-            const durationMatch = content.match(/duration_days:\s*(\d+)/);
-            
-            if (!durationMatch) {
-                return { success: false, error: `Unit "${unitName}" missing duration_days in frontmatter` };
+            if (content === null) {
+                return { success: false, error: `Could not read unit file: ${unitName}` };
+            }
+
+            const unit = this.parserService.readUnit(content, unitFile.path);
+            if (!unit.value || !unit.validation.valid) {
+                return { success: false, error: unit.validation.errors.join('; ') };
             }
 
-            return { success: true, duration: parseInt(durationMatch[1]) };
+            // Broken embeds don't stop the assignment, but the teacher should hear about them first
+            const { missing, duplicated } = this.parserService.checkDayHeadings(unit.value.dayHeadings, unit.value.durationDays);
+            const warnings = [...unit.validation.warnings];
+            if (missing.length === unit.value.durationDays) {
+                warnings.push(`${unitName} has no "## Day N" headings, so every embed will be empty`);
+            } else if (missing.length > 0) {
+                warnings.push(`${unitName} has no heading for Day ${missing.join(', ')} - those embeds will be empty`);
+            }
+            for (const day of duplicated) {
+                warnings.push(`${unitName} has more than one "Day ${day}" heading - embeds show only the first`);
+            }
+
+            return { success: true, duration: unit.value.durationDays, warnings };
         } catch (error) {
             return { success: false, error: `Error reading unit file: ${error.message}` };
         }
     }
 
-    private async getClassInfo(className: string): Promise<{ 
-        success: boolean; 
-        dayOfWeek?: string; 
-        regularTime?: string;
-        earlyDismissalTime?: string;
-        testingDayTime?: string;
-        error?: string 
-    }> {
+    private async getClassInfo(className: string): Promise<ClassFileInfo> {
         try {
             const classes = await this.fileService.getFilesInFolder('Classes');
             const classFile = classes.find(file => file.basename === className);
@@ -339,75 +1082,61 @@ ${transclusionRef}
             }
 
             const content = await this.fileService.readFile(classFile.path);
-            
-            const dayMatch = content.match(/day_of_week:\s*"([^"]+)"/);
-            const regularTimeMatch = content.match(/regular_time:\s*"([^"]+)"/);
-            const earlyTimeMatch = content.match(/early_dismissal_time:\s*"([^"]+)"/);
-            const testingTimeMatch = content.match(/testing_day_time:\s*"([^"]+)"/);
+            if (content === null) {
+                return { success: false, error: `Could not read class file: ${className}` };
+            }
 
-            if (!dayMatch) {
-                return { success: false, error: `Class "${className}" missing day_of_week in frontmatter` };
+            const { value: classSchedule, validation } = this.parserService.readClassSchedule(content, classFile.path);
+            if (!classSchedule || !validation.valid) {
+                return { success: false, error: validation.errors.join('; ') };
             }
 
             return {
                 success: true,
-                dayOfWeek: dayMatch[1],
-                regularTime: regularTimeMatch ? regularTimeMatch[1] : "TBD",
-                earlyDismissalTime: earlyTimeMatch ? earlyTimeMatch[1] : null,
-                testingDayTime: testingTimeMatch ? testingTimeMatch[1] : null
+                daysOfWeek: classSchedule.daysOfWeek,
+                cycleDays: classSchedule.cycleDays,
+                regularTime: classSchedule.regularTime,
+                weekdayTimes: classSchedule.weekdayTimes,
+                specialTimes: classSchedule.specialTimes,
+                file: classFile
             };
         } catch (error) {
             return { success: false, error: `Error reading class file: ${error.message}` };
         }
     }
 
-    private async calculateClassDates(startDate: string, dayOfWeek: string, duration: number): Promise<string[]> {
-        const dates = [];
-        const [year, month, day] = startDate.split('-');
-        let currentDate = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-
-        const dayMap = {
-            "Sunday": 0, "Monday": 1, "Tuesday": 2, "Wednesday": 3,
-            "Thursday": 4, "Friday": 5, "Saturday": 6
-        };
+    // Keep the unit's active_classes in step with what is scheduled
+    private async planUnitWithClass(unitName: string, className: string, action: 'add' | 'remove'): Promise<PlannedFileChange | null> {
+        const unitPath = this.fileService.getFullPath(`Units/${unitName}.md`);
+        return this.planFrontmatterListChange(unitPath, 'active_classes', [className], action);
+    }
 
-        const targetDay = dayMap[dayOfWeek];
-        if (targetDay === undefined) {
-            throw new Error(`Invalid day of week: ${dayOfWeek}`);
-        }
+    // Keep the class's current_units in step with what is scheduled
+    private async planClassWithUnits(className: string, unitNames: string[], action: 'add' | 'remove'): Promise<PlannedFileChange | null> {
+        const classPath = this.fileService.getFullPath(`Classes/${className}.md`);
+        return this.planFrontmatterListChange(classPath, 'current_units', unitNames, action);
+    }
 
-        // Adjust to correct day of week if needed
-        const currentDay = currentDate.getDay();
-        if (currentDay !== targetDay) {
-            const daysToAdd = (targetDay - currentDay + 7) % 7;
-            currentDate.setDate(currentDate.getDate() + daysToAdd);
+    private async planFrontmatterListChange(
+        path: string,
+        key: string,
+        values: string[],
+        action: 'add' | 'remove'
+    ): Promise<PlannedFileChange | null> {
+        const before = await this.fileService.readFile(path, false);
+        if (before === null) {
+            return null;
         }
 
-        // Get holiday dates
-        const holidays = await this.scheduleService.getHolidayDates();
-
-        // Generate dates, skipping holidays
-        while (dates.length < duration) {
-            const dateString = currentDate.toISOString().split('T')[0];
-
-            if (!holidays.includes(dateString)) {
-                dates.push(dateString);
-            }
-
-            currentDate.setDate(currentDate.getDate() + 7); // Next week
+        const after = values.reduce(
+            (content, value) => this.parserService.updateFrontmatterList(content, key, value, action),
+            before
+        );
+        if (after === before) {
+            return null;
         }
 
-        return dates;
-    }
-
-    private async updateUnitWithClass(unitName: string, className: string): Promise<void> {
-        // TODO: Update unit file to include this class in active_classes
-        console.log(`Would update unit ${unitName} to include class ${className}`);
-    }
-
-    private async updateClassWithUnit(className: string, unitName: string): Promise<void> {
-        // TODO: Update class file to include this unit in current_units
-        console.log(`Would update class ${className} to include unit ${unitName}`);
+        return { path, action: 'modify', before, after, diff: diffLines(before, after) };
     }
 
     /**
@@ -421,12 +1150,16 @@ ${transclusionRef}
             for (const unitFile of units) {
                 try {
                     const content = await this.fileService.readFile(unitFile.path);
-                    const durationMatch = content.match(/duration_days:\s*(\d+)/);
-                    const duration = durationMatch ? parseInt(durationMatch[1]) : 0;
+                    if (content === null) continue;
+
+                    const unit = this.parserService.readUnit(content, unitFile.path);
+                    if (!unit.validation.valid) {
+                        console.warn(unit.validation.errors.join('\n'));
+                    }
                     
                     unitList.push({
                         name: unitFile.basename,
-                        duration: duration
+                        duration: unit.value ? unit.value.durationDays : 0
                     });
                 } catch (error) {
                     console.warn(`Error reading unit ${unitFile.basename}:`, error);
@@ -440,6 +1173,17 @@ ${transclusionRef}
         }
     }
 
+    // "Monday/Wednesday" for weekday classes, "Days A/C" for rotation classes
+    private describeClassDays(classSchedule: ClassSchedule | null): string {
+        if (classSchedule && classSchedule.cycleDays.length > 0) {
+            return `Days ${classSchedule.cycleDays.join('/')}`;
+        }
+        if (classSchedule && classSchedule.daysOfWeek.length > 0) {
+            return classSchedule.daysOfWeek.join('/');
+        }
+        return 'Unknown';
+    }
+
     /**
      * Get available classes for selection
      */
@@ -451,13 +1195,14 @@ ${transclusionRef}
             for (const classFile of classes) {
                 try {
                     const content = await this.fileService.readFile(classFile.path);
-                    const dayMatch = content.match(/day_of_week:\s*"([^"]+)"/);
-                    const timeMatch = content.match(/regular_time:\s*"([^"]+)"/);
+                    if (content === null) continue;
+
+                    const classSchedule = this.parserService.parseClassSchedule(content, classFile.path);
                     
                     classList.push({
                         name: classFile.basename,
-                        dayOfWeek: dayMatch ? dayMatch[1] : 'Unknown',
-                        time: timeMatch ? timeMatch[1] : 'TBD'
+                        dayOfWeek: this.describeClassDays(classSchedule),
+                        time: classSchedule?.regularTime || 'TBD'
                     });
                 } catch (error) {
                     console.warn(`Error reading class ${classFile.basename}:`, error);
@@ -1,20 +1,28 @@
 // Core data types for the Lesson Planner plugin
 
+import { TFile } from 'obsidian';
+import { DiffLine } from './utils/diff';
+
 export interface DailyPlan {
     date: string; // YYYY-MM-DD format
     dayOfWeek: string;
     classes: string[];
     filePath: string;
+    cancelled?: boolean;
+    cycleDay?: string;
 }
 
 export interface ClassSchedule {
     name: string;
     grade: string;
     teacher: string;
-    dayOfWeek: string;
+    daysOfWeek: string[];
+    cycleDays: string[]; // rotation days such as ["A", "C"]; used instead of daysOfWeek when set
     regularTime: string;
-    earlyDismissalTime?: string;
-    testingDayTime?: string;
+    weekdayTimes: { [day: string]: string }; // e.g. wednesday_time overrides regular_time on Wednesdays
+    specialTimes: { [slug: string]: string }; // <slug>_time per special schedule type, e.g. early_dismissal_time
+    durationMinutes?: number;
+    specialDurations: { [slug: string]: number }; // <slug>_duration_minutes overrides
     currentUnits: string[];
     filePath: string;
 }
@@ -23,6 +31,17 @@ export interface Unit {
     name: string;
     durationDays: number;
     activeClasses: string[];
+    dayHeadings: number[]; // N of every "Day N" heading, in note order with repeats kept
+    filePath: string;
+}
+
+// A note in Pacing Guides listing units in teaching order, via frontmatter "units" or a list of [[links]]
+export interface PacingGuide {
+    name: string;
+    className?: string;
+    startDate?: string;
+    endDate?: string; // last day units should run to, e.g. the end of the school year
+    units: string[];
     filePath: string;
 }
 
@@ -38,22 +57,67 @@ export interface ClassEntry {
 export interface ScheduleContext {
     className: string;
     regularTime: string;
-    earlyDismissalTime?: string;
-    testingDayTime?: string;
+    weekdayTimes?: { [day: string]: string };
+    specialTimes: { [slug: string]: string };
     specialSchedules: SpecialSchedules;
 }
 
-export interface SpecialSchedules {
-    early_dismissal: string[];
-    testing_day: string[];
+// A "## Name" section of Special Schedules.md and the dates listed under it
+export interface SpecialScheduleType {
+    slug: string; // e.g. "delayed_opening"; class files set the matching delayed_opening_time
+    name: string; // heading text, used in entry notes such as "(Delayed Opening)"
+    dates: string[];
 }
 
+// In file order; the first type listing a date wins
+export type SpecialSchedules = SpecialScheduleType[];
+
+// Types that existed before schedule types were user-defined; headings containing these names keep their slugs
+export const BUILT_IN_SCHEDULE_TYPES = [
+    { slug: 'early_dismissal', name: 'Early Dismissal' },
+    { slug: 'testing_day', name: 'Testing Day' }
+];
+
 export interface HolidayDates extends Array<string> {}
 
+// One non-school day from School Holidays.md. Days expanded from the same range share a rangeId.
+export interface HolidayEntry {
+    date: string;
+    label: string;
+    rangeId?: string; // "<start>..<end>" of the range the day came from
+}
+
+// Letter-day or numbered-day rotation that advances once per school day
+export interface RotationCalendar {
+    cycleDays: string[]; // in order, e.g. ["A", "B"] or ["1", "2", "3", "4", "5", "6"]
+    anchorDate: string; // a school day whose cycle day is known
+    anchorDay: string;
+}
+
+// First and last day of teaching, with the named terms or semesters in between
+export interface SchoolYear {
+    firstDay: string;
+    lastDay: string;
+    terms: SchoolTerm[]; // sorted by start date
+}
+
+export interface SchoolTerm {
+    name: string;
+    startDate: string;
+    endDate: string; // inclusive
+}
+
+// When a class meets: on cycle days if any are given, otherwise on weekdays
+export interface MeetingPattern {
+    daysOfWeek: string[];
+    cycleDays?: string[];
+}
+
 export interface BatchOperationResult {
     success: boolean;
     movements?: Movement[];
     scheduleWarnings?: number;
+    overflowLessons?: number; // entries with no meeting left before the school year ends
     error?: string;
 }
 
@@ -61,6 +125,8 @@ export interface Movement {
     from: string;
     to: string;
     classCount?: number;
+    skippedHolidays?: HolidayEntry[];
+    termChange?: string; // name of the term the entry moved into, when it left its old one
 }
 
 export interface ParsedTime {
@@ -79,17 +145,41 @@ export interface FileOperationResult {
 
 export interface CascadeSession {
     date: string;
-    file: any; // TFile from Obsidian API
+    file: TFile | null; // null until the daily plan is created
     content: string;
     classes?: string[];
+    modified?: boolean;
+}
+
+// One note's planned edit, shown as a diff before anything is written
+export interface PlannedFileChange {
+    path: string;
+    action: 'create' | 'modify' | 'delete';
+    before: string | null;
+    after: string | null;
+    diff: DiffLine[];
+}
+
+// A "## H:MM - Class" section of a daily plan, including its trailing divider
+export interface ClassBlock {
+    className: string;
+    time: string;
+    scheduleNote: string;
+    unit: string;
+    dayNumber: number;
+    totalDays: number;
+    startLine: number;
+    endLine: number;
+    body: string;
 }
 
 export interface ClassFileInfo {
     success: boolean;
-    dayOfWeek?: string;
+    daysOfWeek?: string[];
+    cycleDays?: string[];
     regularTime?: string;
-    earlyDismissalTime?: string;
-    testingDayTime?: string;
+    weekdayTimes?: { [day: string]: string };
+    specialTimes?: { [slug: string]: string };
     file?: any;
     error?: string;
 }
@@ -97,10 +187,20 @@ export interface ClassFileInfo {
 export interface InsertResult {
     content: string;
     conflict: boolean;
+    overlaps: TimeOverlap[];
+}
+
+// Two classes in the same daily plan whose time ranges collide
+export interface TimeOverlap {
+    className: string;
+    time: string;
+    otherClass: string;
+    otherTime: string;
+    minutes: number; // 0 when the classes only share a start time and their lengths are unknown
 }
 
 export interface ScheduleType {
-    type: 'regular' | 'early_dismissal' | 'testing_day';
+    type: string; // 'regular' or a special schedule slug
     date: string;
 }
 
@@ -137,10 +237,19 @@ export interface PerformanceMetric {
 export interface OperationHistory {
     operation: string;
     timestamp: number;
-    data: any;
+    data: {
+        files: FileSnapshot[];
+        createdFiles: string[];
+    };
     canUndo: boolean;
 }
 
+export interface FileSnapshot {
+    path: string;
+    before: string | null; // null when the operation created the file
+    after: string | null; // null when the operation deleted the file
+}
+
 // Validation types
 export interface ValidationResult {
     valid: boolean;
@@ -148,27 +257,58 @@ export interface ValidationResult {
     warnings: string[];
 }
 
+// A parsed note along with any problems found in its frontmatter
+export interface ParseResult<T> {
+    value: T | null;
+    validation: ValidationResult;
+}
+
 // View-related types
 export interface WeeklyViewData {
     startDate: string;
     endDate: string;
     days: DailyPlan[];
+    slots: { [date: string]: TimeSlot[] };
     totalClasses: number;
 }
 
+// Planner consistency check
+export type ConsistencyIssueType =
+    | 'classes_mismatch'
+    | 'day_sequence'
+    | 'holiday'
+    | 'time_mismatch'
+    | 'missing_link'
+    | 'day_of_week';
+
+export interface ConsistencyIssue {
+    type: ConsistencyIssueType;
+    filePath: string;
+    date: string;
+    className?: string;
+    message: string;
+}
+
+export interface ConsistencyReport {
+    checkedPlans: number;
+    issues: ConsistencyIssue[];
+    generatedAt: number;
+}
+
 export interface TimeSlot {
     time: string;
     className?: string;
     unit?: string;
     dayNumber?: number;
+    totalDays?: number;
     scheduleNote?: string;
 }
 
 // Constants
-export const TIME_REGEX = /^(\d{1,2}):(\d{2})$/;
+// Hours, optional minutes and optional AM/PM, e.g. "9:30", "14:30", "7:15 AM", "3pm"
+export const TIME_REGEX = /^(\d{1,2})(?::(\d{2}))?\s*(?:([AaPp])\.?[Mm]\.?)?$/;
 export const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
-export const CLASS_HEADER_REGEX = /^## (\d{1,2}:\d{2}) - /;
-export const FRONTMATTER_CLASSES_REGEX = /classes: \[(.*?)\]/s;
+export const CLASS_HEADER_REGEX = /^## (\d{1,2}:\d{2}(?:\s*[AaPp]\.?[Mm]\.?)?|\d{1,2}\s*[AaPp]\.?[Mm]\.?) - /;
 export const YAML_STRING_REGEX = /:\s*"([^"]+)"/;
 
 // Day of week mapping
@@ -0,0 +1,38 @@
+import { DAY_MAP } from '../types';
+
+// Date helpers that work on local calendar dates (YYYY-MM-DD) without
+// round-tripping through UTC, so results never shift by a day.
+
+export function parseDateString(dateString: string): Date {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+export function formatDate(date: Date): string {
+    const year = date.getFullYear();
+    const month = `0${date.getMonth() + 1}`.slice(-2);
+    const day = `0${date.getDate()}`.slice(-2);
+    return `${year}-${month}-${day}`;
+}
+
+export function addDays(dateString: string, days: number): string {
+    const date = parseDateString(dateString);
+    date.setDate(date.getDate() + days);
+    return formatDate(date);
+}
+
+export function getWeekdayName(dateString: string): string {
+    const dayIndex = parseDateString(dateString).getDay();
+    const entry = Object.entries(DAY_MAP).find(([, index]) => index === dayIndex);
+    return entry ? entry[0] : '';
+}
+
+export function getTodayString(): string {
+    return formatDate(new Date());
+}
+
+// Monday of the week containing the given date
+export function getWeekStart(dateString: string): string {
+    const dayIndex = parseDateString(dateString).getDay();
+    return addDays(dateString, dayIndex === 0 ? -6 : 1 - dayIndex);
+}
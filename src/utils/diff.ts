@@ -0,0 +1,77 @@
+export interface DiffLine {
+    type: 'added' | 'removed' | 'unchanged';
+    text: string;
+}
+
+/**
+ * Line-based diff using a longest-common-subsequence table.
+ * Daily plan notes are small, so the quadratic table is fine here.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+    const oldLines = before === '' ? [] : before.split('\n');
+    const newLines = after === '' ? [] : after.split('\n');
+    const rows = oldLines.length;
+    const cols = newLines.length;
+
+    const table: number[][] = [];
+    for (let i = 0; i <= rows; i++) {
+        table.push(new Array(cols + 1).fill(0));
+    }
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = cols - 1; j >= 0; j--) {
+            table[i][j] = oldLines[i] === newLines[j]
+                ? table[i + 1][j + 1] + 1
+                : Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < cols) {
+        if (oldLines[i] === newLines[j]) {
+            result.push({ type: 'unchanged', text: oldLines[i] });
+            i++;
+            j++;
+        } else if (table[i + 1][j] >= table[i][j + 1]) {
+            result.push({ type: 'removed', text: oldLines[i++] });
+        } else {
+            result.push({ type: 'added', text: newLines[j++] });
+        }
+    }
+    while (i < rows) result.push({ type: 'removed', text: oldLines[i++] });
+    while (j < cols) result.push({ type: 'added', text: newLines[j++] });
+
+    return result;
+}
+
+/**
+ * Render a diff as +/- prefixed text, keeping only a few unchanged lines around each change
+ */
+export function formatDiff(lines: DiffLine[], context = 2): string {
+    const keep = lines.map(() => false);
+    lines.forEach((line, index) => {
+        if (line.type === 'unchanged') return;
+        for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+            keep[k] = true;
+        }
+    });
+
+    const output: string[] = [];
+    let skipped = false;
+    lines.forEach((line, index) => {
+        if (!keep[index]) {
+            skipped = true;
+            return;
+        }
+        if (skipped) {
+            output.push('  ...');
+            skipped = false;
+        }
+        const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+        output.push(prefix + line.text);
+    });
+    if (skipped) output.push('  ...');
+
+    return output.join('\n');
+}
@@ -0,0 +1,144 @@
+import { parseYaml } from 'obsidian';
+import { DATE_REGEX, ValidationResult } from '../types';
+import { formatDate } from './dateUtils';
+
+/**
+ * Typed reads from a note's YAML frontmatter. Missing or malformed fields are
+ * collected as errors naming the file and key instead of being thrown, so a
+ * caller can report every problem in a note at once.
+ */
+export class FrontmatterReader {
+    readonly filePath: string;
+    private data: { [key: string]: unknown } = {};
+    private errors: string[] = [];
+    private warnings: string[] = [];
+
+    constructor(content: string, filePath: string) {
+        this.filePath = filePath;
+
+        const yaml = FrontmatterReader.extractYaml(content);
+        if (yaml === null || yaml.trim() === '') {
+            return;
+        }
+
+        try {
+            const parsed = parseYaml(yaml);
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+                this.data = parsed;
+            } else {
+                this.errors.push(`${filePath}: frontmatter is not a set of key: value fields`);
+            }
+        } catch (error) {
+            this.errors.push(`${filePath}: frontmatter is not valid YAML (${error.message.split('\n')[0]})`);
+        }
+    }
+
+    // Text between the opening and closing --- lines, or null when the note has no frontmatter
+    static extractYaml(content: string): string | null {
+        const lines = content.split('\n');
+        if (lines[0].trim() !== '---') return null;
+
+        const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+        return end === -1 ? null : lines.slice(1, end).join('\n');
+    }
+
+    has(key: string): boolean {
+        const value = this.data[key];
+        return value !== undefined && value !== null && value !== '';
+    }
+
+    keys(): string[] {
+        return Object.keys(this.data);
+    }
+
+    getString(key: string, required = false): string | undefined {
+        if (!this.has(key)) {
+            if (required) this.addError(key, 'is missing');
+            return undefined;
+        }
+
+        const value = this.data[key];
+        if (value instanceof Date) {
+            return this.formatYamlDate(value);
+        }
+        if (typeof value === 'object') {
+            this.addError(key, 'should be a single value, not a list or mapping');
+            return undefined;
+        }
+        return String(value).trim();
+    }
+
+    /**
+     * Unquoted times such as 9:30 come back from YAML 1.1 parsers as base-60 numbers (570),
+     * so numbers are turned back into H:MM. The format itself is left to the caller to check.
+     */
+    getTimeString(key: string, required = false): string | undefined {
+        const value = this.data[key];
+        if (typeof value === 'number' && Number.isInteger(value) && value >= 0) {
+            return `${Math.floor(value / 60)}:${('0' + (value % 60)).slice(-2)}`;
+        }
+        return this.getString(key, required);
+    }
+
+    getNumber(key: string, required = false): number | undefined {
+        const value = this.getString(key, required);
+        if (value === undefined) return undefined;
+
+        const number = Number(value);
+        if (isNaN(number)) {
+            this.addError(key, `should be a number (got "${value}")`);
+            return undefined;
+        }
+        return number;
+    }
+
+    getDate(key: string, required = false): string | undefined {
+        const value = this.getString(key, required);
+        if (value !== undefined && !DATE_REGEX.test(value)) {
+            this.addError(key, `should be a date like 2025-09-02 (got "${value}")`);
+            return undefined;
+        }
+        return value;
+    }
+
+    getBoolean(key: string): boolean {
+        const value = this.data[key];
+        return value === true || value === 'true';
+    }
+
+    // Lists may be inline, block or a single scalar; each item comes back as a trimmed string
+    getList(key: string, required = false): string[] {
+        if (!this.has(key)) {
+            if (required) this.addError(key, 'is missing');
+            return [];
+        }
+
+        const value = this.data[key];
+        const items = Array.isArray(value) ? value : [value];
+        return items
+            .filter(item => item !== null && item !== undefined)
+            .map(item => item instanceof Date ? this.formatYamlDate(item) : String(item).trim())
+            .filter(item => item.length > 0);
+    }
+
+    addError(key: string, message: string): void {
+        this.errors.push(`${this.filePath}: "${key}" ${message}`);
+    }
+
+    addWarning(key: string, message: string): void {
+        this.warnings.push(`${this.filePath}: "${key}" ${message}`);
+    }
+
+    getValidation(): ValidationResult {
+        return {
+            valid: this.errors.length === 0,
+            errors: [...this.errors],
+            warnings: [...this.warnings]
+        };
+    }
+
+    // YAML reads unquoted dates as UTC midnight
+    private formatYamlDate(date: Date): string {
+        return formatDate(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    }
+}
@@ -0,0 +1,165 @@
+// Minimal iCalendar (RFC 5545) helpers for the schedule export and the district calendar import.
+// Times are written as floating local times, so calendars show them in their own time zone.
+import { addDays } from './dateUtils';
+
+export interface CalendarEvent {
+    uid: string;
+    start: Date;
+    end: Date;
+    summary: string;
+    description?: string;
+}
+
+// An event read from an .ics file, reduced to the days it covers
+export interface ImportedCalendarEvent {
+    uid: string;
+    summary: string;
+    startDate: string; // YYYY-MM-DD
+    endDate: string; // inclusive
+}
+
+export function buildCalendar(events: CalendarEvent[], calendarName: string): string {
+    const stamp = formatUtcDateTime(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Lesson Planner//Teaching Schedule//EN',
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${escapeText(calendarName)}`
+    ];
+
+    for (const event of events) {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART:${formatLocalDateTime(event.start)}`,
+            `DTEND:${formatLocalDateTime(event.end)}`,
+            `SUMMARY:${escapeText(event.summary)}`
+        );
+        if (event.description) {
+            lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        }
+        lines.push('END:VEVENT');
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Read the VEVENTs of an .ics file. Only the calendar dates matter here, so timed events keep the
+ * date written in DTSTART (time zones are not converted) and all-day DTEND, which is exclusive,
+ * becomes the last day of the event. Cancelled events are left out; RRULE repeats are not expanded.
+ */
+export function parseCalendar(text: string): ImportedCalendarEvent[] {
+    const events: ImportedCalendarEvent[] = [];
+    const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+    let current: { [name: string]: { params: string; value: string } } | null = null;
+
+    for (const line of lines) {
+        if (line.trim() === 'BEGIN:VEVENT') {
+            current = {};
+            continue;
+        }
+        if (line.trim() === 'END:VEVENT') {
+            const event = current ? toImportedEvent(current) : null;
+            if (event) events.push(event);
+            current = null;
+            continue;
+        }
+
+        const match = line.match(/^([A-Za-z-]+)((?:;[^:]*)?):(.*)$/);
+        if (current && match && !current[match[1].toUpperCase()]) {
+            current[match[1].toUpperCase()] = { params: match[2], value: match[3] };
+        }
+    }
+
+    return events;
+}
+
+function toImportedEvent(properties: { [name: string]: { params: string; value: string } }): ImportedCalendarEvent | null {
+    const start = properties['DTSTART'];
+    const startDate = start ? parseIcsDate(start.value) : null;
+    if (!startDate || properties['STATUS']?.value.toUpperCase() === 'CANCELLED') {
+        return null;
+    }
+
+    const end = properties['DTEND'];
+    let endDate = end ? parseIcsDate(end.value) : null;
+    const allDay = /VALUE=DATE(?!-)/i.test(start.params) || /^\d{8}$/.test(start.value);
+    if (endDate && allDay) {
+        endDate = addDays(endDate, -1);
+    }
+    if (!endDate || endDate < startDate) {
+        endDate = startDate;
+    }
+
+    const summary = properties['SUMMARY'] ? unescapeText(properties['SUMMARY'].value).trim() : '';
+    const uid = properties['UID'] ? properties['UID'].value.trim() : `${startDate}-${toUidPart(summary)}`;
+    return { uid, summary, startDate, endDate };
+}
+
+function parseIcsDate(value: string): string | null {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (escaped, char: string) => char.toLowerCase() === 'n' ? '\n' : char);
+}
+
+// Letters, digits and dashes only, so UIDs stay valid whatever the class or unit is called
+export function toUidPart(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets continue on lines that start with a space
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let octets = 0;
+
+    for (const char of Array.from(line)) {
+        const size = utf8Length(char);
+        if (octets + size > 75) {
+            parts.push(current);
+            current = ' ';
+            octets = 1;
+        }
+        current += char;
+        octets += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n');
+}
+
+function utf8Length(char: string): number {
+    const code = char.codePointAt(0) || 0;
+    if (code < 0x80) return 1;
+    if (code < 0x800) return 2;
+    if (code < 0x10000) return 3;
+    return 4;
+}
+
+function formatLocalDateTime(date: Date): string {
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+        `T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+}
+
+function formatUtcDateTime(date: Date): string {
+    return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+        `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function pad(value: number): string {
+    return `0${value}`.slice(-2);
+}
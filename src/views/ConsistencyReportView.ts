@@ -0,0 +1,103 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { ConsistencyService } from '../services/ConsistencyService';
+import { ConsistencyIssue, ConsistencyIssueType, ConsistencyReport } from '../types';
+
+export const VIEW_TYPE_CONSISTENCY_REPORT = 'lesson-planner-consistency-report';
+
+const ISSUE_HEADINGS: { [type in ConsistencyIssueType]: string } = {
+    classes_mismatch: 'Frontmatter classes vs headings',
+    day_sequence: 'Day N of M sequences',
+    holiday: 'Classes on holidays',
+    time_mismatch: 'Times that differ from the class schedule',
+    missing_link: 'Missing units, classes or Day headings',
+    day_of_week: 'day_of_week vs file date'
+};
+
+/**
+ * Results of the planner consistency check, grouped by kind of problem with links to each note
+ */
+export class ConsistencyReportView extends ItemView {
+    private consistencyService: ConsistencyService;
+    private report: ConsistencyReport | null = null;
+
+    constructor(leaf: WorkspaceLeaf, consistencyService: ConsistencyService) {
+        super(leaf);
+        this.consistencyService = consistencyService;
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_CONSISTENCY_REPORT;
+    }
+
+    getDisplayText(): string {
+        return 'Planner Consistency';
+    }
+
+    getIcon(): string {
+        return 'list-checks';
+    }
+
+    async onOpen() {
+        this.addAction('refresh-cw', 'Check again', () => this.refresh());
+        this.render();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    async refresh(): Promise<ConsistencyReport> {
+        this.contentEl.empty();
+        this.contentEl.createEl('p', { text: 'Checking daily plans...' });
+
+        this.report = await this.consistencyService.checkConsistency();
+        this.render();
+        return this.report;
+    }
+
+    private render() {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('lesson-planner-consistency-view');
+
+        if (!this.report) {
+            container.createEl('p', { text: 'No check has been run yet.' });
+            return;
+        }
+
+        const { issues, checkedPlans, generatedAt } = this.report;
+        container.createEl('h3', {
+            text: `${issues.length} issues in ${checkedPlans} daily plans`
+        });
+        container.createEl('p', {
+            cls: 'lesson-planner-muted',
+            text: `Checked ${new Date(generatedAt).toLocaleString()}`
+        });
+
+        if (issues.length === 0) {
+            container.createEl('p', { text: '✅ Everything is consistent.' });
+            return;
+        }
+
+        for (const type of Object.keys(ISSUE_HEADINGS) as ConsistencyIssueType[]) {
+            const group = issues.filter(issue => issue.type === type);
+            if (group.length === 0) continue;
+
+            const section = container.createEl('details', { cls: 'lesson-planner-issue-group' });
+            section.open = true;
+            section.createEl('summary', { text: `${ISSUE_HEADINGS[type]} (${group.length})` });
+
+            const list = section.createEl('ul');
+            for (const issue of group.sort((a, b) => a.date.localeCompare(b.date))) {
+                this.renderIssue(list, issue);
+            }
+        }
+    }
+
+    private renderIssue(list: HTMLElement, issue: ConsistencyIssue) {
+        const item = list.createEl('li');
+        const link = item.createEl('a', { cls: 'internal-link', text: issue.date });
+        link.onclick = () => this.app.workspace.openLinkText(issue.filePath, '', false);
+        item.appendText(` ${issue.message}`);
+    }
+}
@@ -0,0 +1,171 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { FileService } from '../services/FileService';
+import { ScheduleService } from '../services/ScheduleService';
+import { TimeSlot, WeeklyViewData } from '../types';
+import { addDays, getTodayString, getWeekStart, parseDateString } from '../utils/dateUtils';
+
+export const VIEW_TYPE_WEEKLY_SCHEDULE = 'lesson-planner-weekly-schedule';
+
+/**
+ * Monday-Friday columns built from the daily plans of one week
+ */
+export class WeeklyScheduleView extends ItemView {
+    private scheduleService: ScheduleService;
+    private fileService: FileService;
+    private weekStart: string;
+
+    constructor(leaf: WorkspaceLeaf, scheduleService: ScheduleService, fileService: FileService) {
+        super(leaf);
+        this.scheduleService = scheduleService;
+        this.fileService = fileService;
+        this.weekStart = getWeekStart(getTodayString());
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_WEEKLY_SCHEDULE;
+    }
+
+    getDisplayText(): string {
+        return 'Weekly Schedule';
+    }
+
+    getIcon(): string {
+        return 'calendar-days';
+    }
+
+    async onOpen() {
+        this.addAction('refresh-cw', 'Refresh', () => this.refresh());
+
+        // Re-render when a daily plan in the displayed week is edited, created, deleted or renamed
+        const refreshIfInWeek = (...paths: string[]) => {
+            if (paths.some(path => this.isDailyPlanInWeek(path))) {
+                this.refresh();
+            }
+        };
+        this.registerEvent(this.app.vault.on('modify', file => refreshIfInWeek(file.path)));
+        this.registerEvent(this.app.vault.on('create', file => refreshIfInWeek(file.path)));
+        this.registerEvent(this.app.vault.on('delete', file => refreshIfInWeek(file.path)));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => refreshIfInWeek(file.path, oldPath)));
+
+        await this.refresh();
+    }
+
+    async onClose() {
+        this.contentEl.empty();
+    }
+
+    async showWeek(weekStart: string) {
+        this.weekStart = getWeekStart(weekStart);
+        await this.refresh();
+    }
+
+    private isDailyPlanInWeek(path: string): boolean {
+        const dailyPlansFolder = this.fileService.getFullPath('Daily Plans');
+        if (!path.startsWith(`${dailyPlansFolder}/`)) return false;
+
+        const date = path.slice(dailyPlansFolder.length + 1).replace(/\.md$/, '');
+        return date >= this.weekStart && date <= addDays(this.weekStart, 4);
+    }
+
+    async refresh() {
+        const data = await this.scheduleService.getWeeklyViewData(this.weekStart);
+        this.render(data);
+    }
+
+    private render(data: WeeklyViewData) {
+        const container = this.contentEl;
+        container.empty();
+        container.addClass('lesson-planner-weekly-view');
+
+        const header = container.createDiv({ cls: 'lesson-planner-week-header' });
+        const prevButton = header.createEl('button', { text: '◀ Prev' });
+        prevButton.onclick = () => this.showWeek(addDays(this.weekStart, -7));
+
+        const todayButton = header.createEl('button', { text: 'This week' });
+        todayButton.onclick = () => this.showWeek(getTodayString());
+
+        const nextButton = header.createEl('button', { text: 'Next ▶' });
+        nextButton.onclick = () => this.showWeek(addDays(this.weekStart, 7));
+
+        header.createEl('h3', {
+            text: `Week of ${this.formatLongDate(data.startDate)} · ${data.totalClasses} classes`
+        });
+
+        const grid = container.createDiv({ cls: 'lesson-planner-week-grid' });
+
+        for (let offset = 0; offset < 5; offset++) {
+            const date = addDays(data.startDate, offset);
+            const plan = data.days.find(day => day.date === date);
+            const column = grid.createDiv({ cls: 'lesson-planner-day-column' });
+
+            const dayHeader = column.createDiv({ cls: 'lesson-planner-day-header' });
+            dayHeader.createDiv({
+                cls: 'lesson-planner-day-name',
+                text: parseDateString(date).toLocaleDateString('en-US', { weekday: 'long' })
+            });
+            dayHeader.createDiv({ cls: 'lesson-planner-day-date', text: date });
+            if (plan?.cycleDay) {
+                dayHeader.createDiv({ cls: 'lesson-planner-day-cycle', text: `Day ${plan.cycleDay}` });
+            }
+
+            if (!plan) {
+                column.createDiv({ cls: 'lesson-planner-empty', text: 'No daily plan' });
+                continue;
+            }
+
+            dayHeader.addClass('is-clickable');
+            dayHeader.setAttr('title', `Open ${plan.filePath}`);
+            dayHeader.onclick = () => this.openNote(plan.filePath);
+
+            if (plan.cancelled) {
+                column.createDiv({ cls: 'lesson-planner-cancelled', text: 'Cancelled' });
+            }
+
+            const slots = data.slots[date] || [];
+            if (slots.length === 0) {
+                column.createDiv({ cls: 'lesson-planner-empty', text: 'No classes' });
+            }
+            for (const slot of slots) {
+                this.renderSlot(column, slot, plan.filePath);
+            }
+        }
+    }
+
+    private renderSlot(column: HTMLElement, slot: TimeSlot, dailyPlanPath: string) {
+        const slotEl = column.createDiv({ cls: 'lesson-planner-slot' });
+        slotEl.onclick = () => this.openNote(dailyPlanPath);
+
+        slotEl.createDiv({ cls: 'lesson-planner-slot-time', text: slot.time });
+        slotEl.createDiv({ cls: 'lesson-planner-slot-class', text: slot.className || '' });
+
+        if (slot.unit) {
+            const unitLink = slotEl.createEl('a', { cls: 'internal-link', text: slot.unit });
+            unitLink.onclick = (event) => {
+                event.stopPropagation();
+                this.app.workspace.openLinkText(slot.unit || '', dailyPlanPath);
+            };
+        }
+
+        if (slot.dayNumber) {
+            slotEl.createDiv({
+                cls: 'lesson-planner-slot-day',
+                text: `Day ${slot.dayNumber} of ${slot.totalDays}`
+            });
+        }
+
+        if (slot.scheduleNote) {
+            const noteEl = slotEl.createDiv({ cls: 'lesson-planner-slot-note', text: slot.scheduleNote });
+            if (slot.scheduleNote.includes('⚠️')) {
+                noteEl.addClass('lesson-planner-warning');
+            }
+        }
+    }
+
+    private openNote(path: string) {
+        this.app.workspace.openLinkText(path, '', false);
+    }
+
+    private formatLongDate(date: string): string {
+        return parseDateString(date).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+    }
+}